@@ -2,6 +2,42 @@ import { GenerativeAIWorkerConnectorConstructor } from '@crewdle/web-sdk-types';
 
 import { LlamacppGenerativeAIWorkerConnector } from './models/LlamacppGenerativeAIWorkerConnector.js';
 import { ILlamacppGenerativeAIWorkerOptions } from './models/LlamacppGenerativeAIWorkerOptions';
+import { ILlamacppGenerativeAIModel } from './models/LlamacppGenerativeAIModel';
+import { ILlamacppGenerativeAIWorkerJobOptions } from './models/LlamacppGenerativeAIWorkerJobOptions';
+import { ILlamacppGenerativeAIWorkerConnectorParameters } from './models/LlamacppGenerativeAIWorkerConnectorParameters';
+import { ILlamacppGenerativeAIWorkerConnectorResult } from './models/LlamacppGenerativeAIWorkerConnectorResult';
+import { ILlamacppEmbeddingChunk } from './models/LlamacppEmbeddingChunk';
+import { LlamacppEmbeddingPooling } from './models/LlamacppEmbeddingPooling';
+import { ILlamacppEmbeddingPreprocessing } from './models/LlamacppEmbeddingPreprocessing';
+import { LlamacppEmbeddingInputType } from './models/LlamacppEmbeddingInputType';
+import { ILlamacppGenerativeAIWorkerModelOptions } from './models/LlamacppGenerativeAIWorkerModelOptions';
+import { ILlamacppModelDownloadProgress } from './models/LlamacppModelDownloadProgress';
+import { ILlamacppModelDownloadOptions } from './models/LlamacppModelDownloadOptions';
+import { LlamacppStopReason } from './models/LlamacppStopReason';
+import { LlamacppReasoningMode } from './models/LlamacppReasoningMode';
+import { ILlamacppSamplingOptions } from './models/LlamacppSamplingOptions';
+import { LlamacppContextOverflowStrategy } from './models/LlamacppContextOverflowStrategy';
+import { LlamacppJobPriority } from './models/LlamacppJobPriority';
+import { ILlamacppJobQueueState } from './models/LlamacppJobQueueState';
+import { ILlamacppFunctionCall } from './models/LlamacppFunctionCall';
+import { ILlamacppFunctionParameterSchema } from './models/LlamacppFunctionParameterSchema';
+import { LlamacppFunctionParameterType } from './models/LlamacppFunctionParameterType';
+import { LlamacppGrammarDefinition } from './models/LlamacppGrammarDefinition';
+import { LlamacppGrammarError } from './models/LlamacppGrammarError.js';
+import { LlamacppModelDownloader } from './models/LlamacppModelDownloader.js';
+import { LlamacppModelDownloadError } from './models/LlamacppModelDownloadError.js';
+import { LlamacppOpenAIServer } from './models/LlamacppOpenAIServer.js';
+import { LlamacppModelConfigError } from './models/LlamacppModelConfigError.js';
+import { ILlamacppOpenAIServerOptions } from './models/LlamacppOpenAIServerOptions';
+import { ILlamacppModelLoadOptions } from './models/LlamacppModelLoadOptions';
+import { LlamacppKvCacheType } from './models/LlamacppKvCacheType';
+import { ILlamacppModelMetadata } from './models/LlamacppModelMetadata';
+import { ILlamacppModelInfo } from './models/LlamacppModelInfo';
+import { LlamacppModelOutputType } from './models/LlamacppModelOutputType';
+import { ILlamacppRankedDocument } from './models/LlamacppRankedDocument';
+import { ILlamacppLoraAdapter } from './models/LlamacppLoraAdapter';
+import { ILlamacppSpeculativeDecodingOptions } from './models/LlamacppSpeculativeDecodingOptions';
+import { ILlamacppSpeculativeDecodingStats } from './models/LlamacppSpeculativeDecodingStats';
 
 export function getLlamacppGenerativeAIWorkerConnector(options?: ILlamacppGenerativeAIWorkerOptions): GenerativeAIWorkerConnectorConstructor {
   if (!options) {
@@ -15,5 +51,5 @@ export function getLlamacppGenerativeAIWorkerConnector(options?: ILlamacppGenera
   }
 }
 
-export { ILlamacppGenerativeAIWorkerOptions };
-export { LlamacppGenerativeAIWorkerConnector };
+export { ILlamacppGenerativeAIWorkerOptions, ILlamacppGenerativeAIWorkerModelOptions, ILlamacppGenerativeAIWorkerJobOptions, ILlamacppGenerativeAIWorkerConnectorParameters, ILlamacppGenerativeAIWorkerConnectorResult, ILlamacppGenerativeAIModel, ILlamacppEmbeddingChunk, LlamacppEmbeddingPooling, ILlamacppEmbeddingPreprocessing, LlamacppEmbeddingInputType, ILlamacppModelDownloadProgress, ILlamacppModelDownloadOptions, LlamacppGrammarDefinition, LlamacppStopReason, LlamacppReasoningMode, ILlamacppSamplingOptions, LlamacppContextOverflowStrategy, LlamacppJobPriority, ILlamacppJobQueueState, ILlamacppFunctionCall, ILlamacppFunctionParameterSchema, LlamacppFunctionParameterType, ILlamacppOpenAIServerOptions, ILlamacppModelLoadOptions, LlamacppKvCacheType, ILlamacppModelMetadata, ILlamacppModelInfo, LlamacppModelOutputType, ILlamacppRankedDocument, ILlamacppLoraAdapter, ILlamacppSpeculativeDecodingOptions, ILlamacppSpeculativeDecodingStats };
+export { LlamacppGenerativeAIWorkerConnector, LlamacppModelDownloader, LlamacppModelDownloadError, LlamacppGrammarError, LlamacppOpenAIServer, LlamacppModelConfigError };
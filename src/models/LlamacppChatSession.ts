@@ -0,0 +1,51 @@
+import type { LlamaChatSession, LlamaContext, LlamaContextSequence } from 'node-llama-cpp';
+
+/**
+ * A chat session and the context sequence holding its evaluated tokens.
+ */
+export interface ILlamacppChatSession {
+  /**
+   * The conversation key of the session, if it is kept between jobs.
+   */
+  key?: string;
+
+  /**
+   * The model ID.
+   */
+  modelId: string;
+
+  /**
+   * The key of the LoRA adapter and scale applied to the context, if any.
+   */
+  adapterKey?: string;
+
+  /**
+   * The context the sequence belongs to.
+   */
+  context: LlamaContext;
+
+  /**
+   * The context sequence.
+   */
+  sequence: LlamaContextSequence;
+
+  /**
+   * The ID of the draft model predicting the tokens of the sequence, if any.
+   */
+  draftModelId?: string;
+
+  /**
+   * The sequence of the draft model, if any.
+   */
+  draftSequence?: LlamaContextSequence;
+
+  /**
+   * The chat session.
+   */
+  session: LlamaChatSession;
+
+  /**
+   * The save of the session to disk started when its last job completed, awaited before the session is used or disposed again.
+   */
+  saving?: Promise<void>;
+}
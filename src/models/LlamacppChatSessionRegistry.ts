@@ -0,0 +1,195 @@
+import type { LlamaContext } from 'node-llama-cpp';
+
+import { ILlamacppChatSession } from './LlamacppChatSession';
+
+/**
+ * The default maximum number of retained sessions.
+ * @ignore
+ */
+const DEFAULT_MAX_SESSIONS = 8;
+
+/**
+ * The default idle timeout of a retained session, in milliseconds.
+ * @ignore
+ */
+const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * The registry record of a retained session.
+ * @ignore
+ */
+interface ILlamacppRetainedSession {
+  chat: ILlamacppChatSession;
+  lastUsed: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Keeps chat sessions alive between jobs, keyed by conversation, so their evaluated tokens are reused by the next turn.
+ * A session is checked out while a job uses it, and retained again when the job ends.
+ * Idle sessions expire after a timeout, and the least recently used ones are disposed when the cap is reached.
+ */
+export class LlamacppChatSessionRegistry {
+  /**
+   * The retained sessions, keyed by conversation.
+   * @ignore
+   */
+  private sessions: Map<string, ILlamacppRetainedSession> = new Map();
+
+  /**
+   * The maximum number of retained sessions.
+   * @ignore
+   */
+  private maxSessions = DEFAULT_MAX_SESSIONS;
+
+  /**
+   * The idle timeout in milliseconds.
+   * @ignore
+   */
+  private idleTimeout = DEFAULT_IDLE_TIMEOUT;
+
+  /**
+   * The constructor.
+   * @param dispose Disposes a session that expired or was pushed out by the cap.
+   */
+  constructor(
+    private dispose: (chat: ILlamacppChatSession) => Promise<void>,
+  ) {}
+
+  /**
+   * Whether sessions are retained at all.
+   */
+  get enabled(): boolean {
+    return this.maxSessions > 0;
+  }
+
+  /**
+   * Set the retention limits.
+   * @param maxSessions The maximum number of retained sessions, 0 disables retention.
+   * @param idleTimeout The idle timeout in milliseconds.
+   */
+  setLimits(maxSessions?: number, idleTimeout?: number): void {
+    if (maxSessions !== undefined) {
+      this.maxSessions = maxSessions;
+    }
+    if (idleTimeout !== undefined) {
+      this.idleTimeout = idleTimeout;
+    }
+  }
+
+  /**
+   * Check out the session of a conversation.
+   * A session of another model or adapter is disposed, since its tokens cannot be reused.
+   * @param key The conversation key.
+   * @param modelId The model ID.
+   * @param adapterKey The key of the LoRA adapter and scale, if any.
+   * @returns A promise that resolves with the session, if one is retained for the model.
+   */
+  async take(key: string, modelId: string, adapterKey?: string): Promise<ILlamacppChatSession | undefined> {
+    const chat = this.remove(key);
+    if (!chat) {
+      return undefined;
+    }
+    if (chat.modelId !== modelId || chat.adapterKey !== adapterKey || chat.sequence.disposed) {
+      await this.dispose(chat);
+      return undefined;
+    }
+    return chat;
+  }
+
+  /**
+   * Retain a session at the end of a job.
+   * A session already retained under the same key is replaced.
+   * @param chat The session, which must have a key.
+   */
+  async retain(chat: ILlamacppChatSession): Promise<void> {
+    const key = chat.key!;
+    const previous = this.remove(key);
+    if (previous) {
+      await this.dispose(previous);
+    }
+
+    const timer = setTimeout(() => {
+      const expired = this.remove(key);
+      if (expired) {
+        this.dispose(expired).catch((e) => console.error(e));
+      }
+    }, this.idleTimeout);
+    timer.unref?.();
+    this.sessions.set(key, {
+      chat,
+      lastUsed: Date.now(),
+      timer,
+    });
+
+    while (this.sessions.size > this.maxSessions) {
+      const oldest = this.getOldest();
+      if (!oldest) {
+        break;
+      }
+      await this.dispose(this.remove(oldest)!);
+    }
+  }
+
+  /**
+   * Remove the least recently used session of a context, to free its sequence.
+   * @param context The context.
+   * @returns The removed session, which the caller disposes.
+   */
+  evictOldest(context: LlamaContext): ILlamacppChatSession | undefined {
+    const oldest = this.getOldest((chat) => chat.context === context);
+    return oldest ? this.remove(oldest) : undefined;
+  }
+
+  /**
+   * Remove all the sessions of a model, or drafted by it, before the model or its context is disposed.
+   * @param modelId The model ID.
+   * @returns The removed sessions, which the caller disposes.
+   */
+  evictModel(modelId: string): ILlamacppChatSession[] {
+    const evicted: ILlamacppChatSession[] = [];
+    for (const [key, retained] of this.sessions) {
+      if (retained.chat.modelId === modelId || retained.chat.draftModelId === modelId) {
+        evicted.push(this.remove(key)!);
+      }
+    }
+    return evicted;
+  }
+
+  /**
+   * Remove a session from the registry.
+   * @param key The conversation key.
+   * @returns The removed session.
+   * @ignore
+   */
+  private remove(key: string): ILlamacppChatSession | undefined {
+    const retained = this.sessions.get(key);
+    if (!retained) {
+      return undefined;
+    }
+    clearTimeout(retained.timer);
+    this.sessions.delete(key);
+    return retained.chat;
+  }
+
+  /**
+   * Get the key of the least recently used session.
+   * @param filter Restricts the search to the matching sessions.
+   * @returns The conversation key.
+   * @ignore
+   */
+  private getOldest(filter?: (chat: ILlamacppChatSession) => boolean): string | undefined {
+    let oldest: string | undefined;
+    let oldestUsed = Infinity;
+    for (const [key, retained] of this.sessions) {
+      if (filter && !filter(retained.chat)) {
+        continue;
+      }
+      if (retained.lastUsed < oldestUsed) {
+        oldest = key;
+        oldestUsed = retained.lastUsed;
+      }
+    }
+    return oldest;
+  }
+}
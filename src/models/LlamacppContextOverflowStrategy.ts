@@ -0,0 +1,7 @@
+/**
+ * How a history that does not fit in the context is shortened.
+ * - `dropOldest`: the oldest turns are dropped, the system prompt is kept.
+ * - `truncate`: the longest messages are truncated, then the oldest turns are dropped if it is not enough.
+ * - `summarize`: the oldest turns are replaced by a summary generated with the same model.
+ */
+export type LlamacppContextOverflowStrategy = 'dropOldest' | 'truncate' | 'summarize';
@@ -0,0 +1,29 @@
+/**
+ * The embedding of a chunk of a long embedding input.
+ */
+export interface ILlamacppEmbeddingChunk {
+  /**
+   * The index of the input the chunk belongs to.
+   */
+  index: number;
+
+  /**
+   * The offset of the first token of the chunk in the input.
+   */
+  start: number;
+
+  /**
+   * The offset after the last token of the chunk in the input.
+   */
+  end: number;
+
+  /**
+   * The text of the chunk.
+   */
+  text: string;
+
+  /**
+   * The normalized vector of the chunk.
+   */
+  vector: number[];
+}
@@ -0,0 +1,4 @@
+/**
+ * The kind of text being embedded, used to pick the template of retrieval models that embed queries and passages differently.
+ */
+export type LlamacppEmbeddingInputType = 'query' | 'passage';
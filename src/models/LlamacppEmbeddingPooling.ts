@@ -0,0 +1,7 @@
+/**
+ * How the vectors of the chunks of a long embedding input are combined.
+ * - `mean`: the token-weighted mean of the chunk vectors.
+ * - `first`: the vector of the first chunk only.
+ * - `all`: the mean vector, plus every chunk vector with its offsets.
+ */
+export type LlamacppEmbeddingPooling = 'mean' | 'first' | 'all';
@@ -0,0 +1,36 @@
+/**
+ * The preprocessing applied to the text before it is embedded.
+ */
+export interface ILlamacppEmbeddingPreprocessing {
+  /**
+   * Trim the text. Defaults to true.
+   */
+  trim?: boolean;
+
+  /**
+   * Lowercase the text. Defaults to true.
+   */
+  lowercase?: boolean;
+
+  /**
+   * The Unicode normalization form applied to the text. Disabled by default.
+   */
+  normalization?: 'NFC' | 'NFD' | 'NFKC' | 'NFKD';
+
+  /**
+   * Collapse runs of whitespace into a single space. Defaults to false.
+   */
+  collapseWhitespace?: boolean;
+
+  /**
+   * The template for query inputs, where `{text}` is replaced by the text, e.g. `query: {text}`.
+   * A template without `{text}` is used as a prefix.
+   */
+  queryTemplate?: string;
+
+  /**
+   * The template for passage inputs, where `{text}` is replaced by the text, e.g. `passage: {text}`.
+   * A template without `{text}` is used as a prefix.
+   */
+  passageTemplate?: string;
+}
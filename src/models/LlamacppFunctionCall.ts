@@ -0,0 +1,39 @@
+/**
+ * A function called by the model during a job.
+ */
+export interface ILlamacppFunctionCall {
+  /**
+   * The index of the call in the job.
+   */
+  index: number;
+
+  /**
+   * The function-call round of the call, starting at 1. The calls of a round are generated before any of their results is returned to the model.
+   */
+  round: number;
+
+  /**
+   * The function name.
+   */
+  name: string;
+
+  /**
+   * The parameters generated by the model.
+   */
+  params?: { [key: string]: unknown };
+
+  /**
+   * The result returned to the model, when the function succeeded.
+   */
+  result?: string;
+
+  /**
+   * The error returned to the model, when the function failed, timed out or was not called because of the round limit.
+   */
+  error?: string;
+
+  /**
+   * The time in milliseconds the function took.
+   */
+  duration?: number;
+}
@@ -0,0 +1,87 @@
+import { LlamacppFunctionParameterType } from './LlamacppFunctionParameterType';
+
+/**
+ * The JSON Schema of a function parameter.
+ * The `params` of a function is either an object schema, or a map of property schemas that are optional unless they have `required: true`.
+ */
+export interface ILlamacppFunctionParameterSchema {
+  /**
+   * The type of the value, or the types it may have. Optional for constants, enums and alternatives.
+   */
+  type?: LlamacppFunctionParameterType | LlamacppFunctionParameterType[];
+
+  /**
+   * The description of the value, shown to the model.
+   */
+  description?: string;
+
+  /**
+   * The allowed values.
+   */
+  enum?: (string | number | boolean | null)[];
+
+  /**
+   * The only allowed value.
+   */
+  const?: string | number | boolean | null;
+
+  /**
+   * The schemas of which the value must match at least one.
+   */
+  anyOf?: ILlamacppFunctionParameterSchema[];
+
+  /**
+   * The schemas of which the value must match exactly one.
+   */
+  oneOf?: ILlamacppFunctionParameterSchema[];
+
+  /**
+   * The properties of an object.
+   */
+  properties?: { [key: string]: ILlamacppFunctionParameterSchema };
+
+  /**
+   * The required properties of an object. Properties that are not listed are optional.
+   */
+  required?: string[];
+
+  /**
+   * Whether an object accepts properties that are not listed. Defaults to false.
+   */
+  additionalProperties?: boolean;
+
+  /**
+   * The schema of the items of an array.
+   */
+  items?: ILlamacppFunctionParameterSchema;
+
+  /**
+   * The minimum number of items of an array.
+   */
+  minItems?: number;
+
+  /**
+   * The maximum number of items of an array.
+   */
+  maxItems?: number;
+
+  /**
+   * The minimum value of a number.
+   */
+  minimum?: number;
+
+  /**
+   * The maximum value of a number.
+   */
+  maximum?: number;
+
+  /**
+   * The minimum length of a string.
+   */
+  minLength?: number;
+
+  /**
+   * The maximum length of a string.
+   */
+  maxLength?: number;
+}
@@ -0,0 +1,4 @@
+/**
+ * The JSON Schema type of a function parameter.
+ */
+export type LlamacppFunctionParameterType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
@@ -0,0 +1,259 @@
+import type { GbnfJsonSchema } from 'node-llama-cpp';
+
+import { ILlamacppFunctionParameterSchema } from './LlamacppFunctionParameterSchema';
+import { LlamacppFunctionParameterType } from './LlamacppFunctionParameterType';
+
+/**
+ * Normalizes function parameter schemas and validates the arguments generated by the model against them.
+ * Number bounds cannot be expressed in a grammar, so they are only enforced by the validation.
+ */
+export class LlamacppFunctionSchemaValidator {
+  /**
+   * Get the object schema of the parameters of a function.
+   * A map of property schemas is wrapped in an object schema, where only the properties marked with `required: true` are required.
+   * @param params The parameters of the function.
+   * @returns The object schema.
+   */
+  normalize(params: { [key: string]: any }): ILlamacppFunctionParameterSchema {
+    if (params.type === 'object' && typeof params.properties === 'object') {
+      return params as ILlamacppFunctionParameterSchema;
+    }
+    const properties: { [key: string]: ILlamacppFunctionParameterSchema } = {};
+    const required: string[] = [];
+    for (const [key, { required: isRequired, ...property }] of Object.entries(params)) {
+      properties[key] = property;
+      if (isRequired === true) {
+        required.push(key);
+      }
+    }
+    return {
+      type: 'object',
+      properties,
+      required,
+    };
+  }
+
+  /**
+   * Remove the optional properties the model set to null, so the function sees them as left out.
+   * @param schema The parameter schema.
+   * @param value The value generated by the model.
+   * @returns The value without the omitted properties.
+   */
+  removeOmitted(schema: ILlamacppFunctionParameterSchema, value: unknown): unknown {
+    if (schema.type === 'array' && schema.items && Array.isArray(value)) {
+      return value.map((item) => this.removeOmitted(schema.items!, item));
+    }
+    if (schema.type !== 'object' || !schema.properties || typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return value;
+    }
+
+    const result: { [key: string]: unknown } = {};
+    for (const [key, item] of Object.entries(value)) {
+      const property = schema.properties[key];
+      if (!property) {
+        result[key] = item;
+      } else if (item !== null || schema.required?.includes(key) || this.validate(property, null).length === 0) {
+        result[key] = this.removeOmitted(property, item);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Convert a parameter schema to the schema of the node-llama-cpp grammar.
+   * Enums are emitted without their type, since node-llama-cpp only constrains enum values on typeless schemas.
+   * Alternatives and multiple types become a `oneOf`, which lets the model generate any of them.
+   * The grammar makes every property of an object present, so optional properties may be null to leave them out.
+   * @param schema The parameter schema.
+   * @returns The grammar schema.
+   */
+  toGbnf(schema: ILlamacppFunctionParameterSchema): GbnfJsonSchema {
+    const { description } = schema;
+    if (schema.const !== undefined) {
+      return { const: schema.const, description };
+    }
+    if (schema.enum) {
+      return { enum: schema.enum, description };
+    }
+    const options = schema.anyOf ?? schema.oneOf;
+    if (options) {
+      return { oneOf: options.map((option) => this.toGbnf(option)), description };
+    }
+    if (Array.isArray(schema.type)) {
+      return { oneOf: schema.type.map((type) => this.toGbnf({ ...schema, type, description: undefined })), description };
+    }
+
+    switch (schema.type) {
+      case 'object': {
+        const properties: { [key: string]: GbnfJsonSchema } = {};
+        for (const [key, property] of Object.entries(schema.properties ?? {})) {
+          properties[key] = schema.required?.includes(key)
+            ? this.toGbnf(property)
+            : { oneOf: [this.toGbnf(property), { type: 'null' }] };
+        }
+        return {
+          type: 'object',
+          properties,
+          required: schema.required ?? [],
+          additionalProperties: schema.additionalProperties ?? false,
+          description,
+        };
+      }
+      case 'array':
+        return {
+          type: 'array',
+          items: schema.items ? this.toGbnf(schema.items) : undefined,
+          minItems: schema.minItems,
+          maxItems: schema.maxItems,
+          description,
+        };
+      case 'string':
+        return {
+          type: 'string',
+          minLength: schema.minLength,
+          maxLength: schema.maxLength,
+          description,
+        };
+      case 'number':
+      case 'integer':
+      case 'boolean':
+      case 'null':
+        return { type: schema.type, description };
+      default:
+        return { type: ['string', 'number', 'boolean', 'null'], description };
+    }
+  }
+
+  /**
+   * Validate a value against a parameter schema.
+   * @param schema The parameter schema.
+   * @param value The value.
+   * @param path The path of the value, used in the error messages.
+   * @returns The validation errors, empty if the value is valid.
+   */
+  validate(schema: ILlamacppFunctionParameterSchema, value: unknown, path = 'params'): string[] {
+    if (schema.const !== undefined) {
+      return value === schema.const ? [] : [`${path} must be ${JSON.stringify(schema.const)}`];
+    }
+    if (schema.enum) {
+      return schema.enum.includes(value as string | number | boolean | null)
+        ? []
+        : [`${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`];
+    }
+    if (schema.anyOf) {
+      return schema.anyOf.some((option) => this.validate(option, value, path).length === 0)
+        ? []
+        : [`${path} must match at least one of the allowed schemas`];
+    }
+    if (schema.oneOf) {
+      const matches = schema.oneOf.filter((option) => this.validate(option, value, path).length === 0).length;
+      if (matches === 0) {
+        return [`${path} must match one of the allowed schemas`];
+      }
+      return matches === 1 ? [] : [`${path} must match exactly one of the allowed schemas, but matches ${matches}`];
+    }
+    if (Array.isArray(schema.type)) {
+      // The constraints of the first type the value has are reported, so the model knows what to fix.
+      const type = schema.type.find((option) => this.hasType(option, value));
+      return type
+        ? this.validate({ ...schema, type }, value, path)
+        : [`${path} must be of type ${schema.type.join(' or ')}`];
+    }
+
+    switch (schema.type) {
+      case 'object': {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return [`${path} must be an object`];
+        }
+        const errors: string[] = [];
+        const properties = schema.properties ?? {};
+        for (const key of schema.required ?? []) {
+          if ((value as { [key: string]: unknown })[key] === undefined) {
+            errors.push(`${path}.${key} is required`);
+          }
+        }
+        for (const [key, item] of Object.entries(value)) {
+          if (properties[key]) {
+            errors.push(...this.validate(properties[key], item, `${path}.${key}`));
+          } else if (!schema.additionalProperties) {
+            errors.push(`${path}.${key} is not a known parameter`);
+          }
+        }
+        return errors;
+      }
+      case 'array': {
+        if (!Array.isArray(value)) {
+          return [`${path} must be an array`];
+        }
+        const errors: string[] = [];
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+          errors.push(`${path} must have at least ${schema.minItems} items`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+          errors.push(`${path} must have at most ${schema.maxItems} items`);
+        }
+        if (schema.items) {
+          for (const [index, item] of value.entries()) {
+            errors.push(...this.validate(schema.items, item, `${path}[${index}]`));
+          }
+        }
+        return errors;
+      }
+      case 'string': {
+        if (typeof value !== 'string') {
+          return [`${path} must be a string`];
+        }
+        const errors: string[] = [];
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+          errors.push(`${path} must be at least ${schema.minLength} characters long`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+          errors.push(`${path} must be at most ${schema.maxLength} characters long`);
+        }
+        return errors;
+      }
+      case 'number':
+      case 'integer': {
+        if (!this.hasType(schema.type, value)) {
+          return [`${path} must be ${schema.type === 'integer' ? 'an integer' : 'a number'}`];
+        }
+        const errors: string[] = [];
+        if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+          errors.push(`${path} must be at least ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && (value as number) > schema.maximum) {
+          errors.push(`${path} must be at most ${schema.maximum}`);
+        }
+        return errors;
+      }
+      case 'boolean':
+        return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+      case 'null':
+        return value === null ? [] : [`${path} must be null`];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Check whether a value has a JSON Schema type.
+   * @param type The type.
+   * @param value The value.
+   * @returns True if the value has the type.
+   * @ignore
+   */
+  private hasType(type: LlamacppFunctionParameterType, value: unknown): boolean {
+    switch (type) {
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === type;
+    }
+  }
+}
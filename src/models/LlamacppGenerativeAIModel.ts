@@ -0,0 +1,19 @@
+import type { IGenerativeAIModel } from '@crewdle/web-sdk-types';
+
+import { ILlamacppLoraAdapter } from './LlamacppLoraAdapter';
+
+/**
+ * A generative AI model definition, with the fields specific to llama.cpp.
+ * A reranker model is defined with the `ranking` output type.
+ */
+export interface ILlamacppGenerativeAIModel extends IGenerativeAIModel {
+  /**
+   * The expected SHA-256 of the model file, as a hex string.
+   */
+  sha256?: string;
+
+  /**
+   * The LoRA adapters a job can apply to the model, downloaded and cached with the model file.
+   */
+  adapters?: ILlamacppLoraAdapter[];
+}
@@ -1,14 +1,96 @@
-import { existsSync, createWriteStream, unlinkSync } from 'fs';
-import https from 'follow-redirects/https.js';
+import { statSync } from 'fs';
 
-import { EventEmitter } from 'events';
+import { Llama, LlamaModel, LlamaEmbeddingContext, LlamaRankingContext, LlamaContext, ChatHistoryItem, LlamaChatSession, LlamaContextSequence, LlamaChatSessionRepeatPenalty, TokenBias, TokenPredictor, GbnfJsonObjectSchema, GgmlType, InsufficientMemoryError } from 'node-llama-cpp';
 
-import { Llama, LlamaEmbeddingContext, LlamaContext, ChatHistoryItem, LlamaChatSession, LlamaContextSequence } from 'node-llama-cpp';
-
-import type { GenerativeAIEngineType, GenerativeAIModelOutputType, IGenerativeAIModel, IGenerativeAIWorkerConnector, IGenerativeAIWorkerOptions, GenerativeAIWorkerConnectorParameters, GenerativeAIWorkerConnectorResult, IGenerativeAIPromptWorkerConnectorParameters, IGenerativeAIWorkerConnectorPromptResult, GenerativeAIWorkerConnectorTypes, IPromptFunction } from '@crewdle/web-sdk-types';
+import type { GenerativeAIEngineType, GenerativeAIModelOutputType, IGenerativeAIModel, IGenerativeAIWorkerConnector, IGenerativeAIWorkerOptions, GenerativeAIWorkerConnectorParameters, GenerativeAIWorkerConnectorResult, IGenerativeAIPromptWorkerConnectorParameters, GenerativeAIWorkerConnectorTypes, IPromptFunction } from '@crewdle/web-sdk-types';
 
 import { ILlamacppGenerativeAIWorkerOptions } from './LlamacppGenerativeAIWorkerOptions';
 import { ILlamacppGenerativeAIWorkerModel } from './LlamacppGenerativeAIWorkerModel';
+import { ILlamacppGenerativeAIModel } from './LlamacppGenerativeAIModel';
+import { ILlamacppGenerativeAIWorkerJobOptions } from './LlamacppGenerativeAIWorkerJobOptions';
+import { ILlamacppGenerativeAIWorkerConnectorParameters } from './LlamacppGenerativeAIWorkerConnectorParameters';
+import { ILlamacppGenerativeAIWorkerConnectorResult } from './LlamacppGenerativeAIWorkerConnectorResult';
+import { ILlamacppEmbeddingChunk } from './LlamacppEmbeddingChunk';
+import { LlamacppEmbeddingPooling } from './LlamacppEmbeddingPooling';
+import { ILlamacppEmbeddingPreprocessing } from './LlamacppEmbeddingPreprocessing';
+import { LlamacppEmbeddingInputType } from './LlamacppEmbeddingInputType';
+import { LlamacppStopReason } from './LlamacppStopReason';
+import { LlamacppReasoningMode } from './LlamacppReasoningMode';
+import { ILlamacppSamplingOptions } from './LlamacppSamplingOptions';
+import { LlamacppModelDownloader } from './LlamacppModelDownloader.js';
+import { LlamacppModelResidencyManager } from './LlamacppModelResidencyManager.js';
+import { LlamacppGrammarResolver } from './LlamacppGrammarResolver.js';
+import { LlamacppChatSessionRegistry } from './LlamacppChatSessionRegistry.js';
+import { ILlamacppChatSession } from './LlamacppChatSession';
+import { LlamacppSessionStore } from './LlamacppSessionStore.js';
+import { LlamacppJobScheduler } from './LlamacppJobScheduler.js';
+import { LlamacppJobPriority } from './LlamacppJobPriority';
+import { ILlamacppJobQueueState } from './LlamacppJobQueueState';
+import { ILlamacppFunctionCall } from './LlamacppFunctionCall';
+import { ILlamacppFunctionParameterSchema } from './LlamacppFunctionParameterSchema';
+import { LlamacppFunctionSchemaValidator } from './LlamacppFunctionSchemaValidator.js';
+import { ILlamacppModelLoadOptions } from './LlamacppModelLoadOptions';
+import { LlamacppModelConfigError } from './LlamacppModelConfigError.js';
+import { LlamacppModelInspector } from './LlamacppModelInspector.js';
+import { ILlamacppModelInfo } from './LlamacppModelInfo';
+import { LlamacppModelStore } from './LlamacppModelStore.js';
+import { LlamacppModelOutputType } from './LlamacppModelOutputType';
+import { ILlamacppSpeculativeDecodingOptions } from './LlamacppSpeculativeDecodingOptions';
+import { ILlamacppSpeculativeDecodingStats } from './LlamacppSpeculativeDecodingStats';
+
+/**
+ * The default prompt of the `prompted` reasoning mode.
+ * @ignore
+ */
+const DEFAULT_REASONING_PROMPT = 'Analyze the following question and explain the steps needed to answer it without actually providing the final answer. Explain the reasoning process, key considerations, and possible strategies to find the answer.\n{thoughts}Question: {prompt}';
+
+/**
+ * The tokens allowed for the chat template around each history item.
+ * @ignore
+ */
+const HISTORY_ITEM_OVERHEAD = 8;
+
+/**
+ * The maximum number of tokens of a history summary.
+ * @ignore
+ */
+const SUMMARY_MAX_TOKENS = 512;
+
+/**
+ * The instructions of the history summary prompt.
+ * @ignore
+ */
+const SUMMARY_INSTRUCTIONS = 'Summarize the following conversation in a few sentences. Keep the facts, decisions and open questions that later messages may depend on.';
+
+/**
+ * The default time in milliseconds after which a function called by the model fails.
+ * @ignore
+ */
+const DEFAULT_FUNCTION_TIMEOUT = 30 * 1000;
+
+/**
+ * The default maximum number of function-call rounds of a job.
+ * @ignore
+ */
+const DEFAULT_MAX_FUNCTION_CALL_ROUNDS = 8;
+
+/**
+ * The prompt asking the model to answer once it called functions for too many rounds.
+ * @ignore
+ */
+const FUNCTION_CALL_LIMIT_PROMPT = 'The function call limit is reached. Answer the request with the information you already have, without calling functions.';
+
+/**
+ * The context key of the contexts of draft models, kept apart from the contexts of their own jobs.
+ * @ignore
+ */
+const DRAFT_CONTEXT_KEY = '#draft';
+
+/**
+ * The default time after which an adapter context without sequences in use is disposed.
+ * @ignore
+ */
+const DEFAULT_ADAPTER_CONTEXT_IDLE_TIMEOUT = 5 * 60 * 1000;
 
 /**
  * The Llamacpp machine learning connector.
@@ -50,14 +132,71 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
    */
   private static models: Map<string, {
     model: ILlamacppGenerativeAIWorkerModel,
-    context?: LlamaContext
+    contexts?: Map<string, LlamaContext>,
+    embeddingContext?: LlamaEmbeddingContext,
+    embeddingContextSize?: number,
+    rankingContext?: LlamaRankingContext,
   }> = new Map();
 
   /**
-   * The embedding context.
+   * The model downloader.
+   * @ignore
+   */
+  private static downloader = new LlamacppModelDownloader();
+
+  /**
+   * The model inspector.
+   * @ignore
+   */
+  private static inspector = new LlamacppModelInspector();
+
+  /**
+   * The residency manager of the loaded models.
+   * @ignore
+   */
+  private static residency = new LlamacppModelResidencyManager();
+
+  /**
+   * The grammar resolver.
+   * @ignore
+   */
+  private static grammars = new LlamacppGrammarResolver();
+
+  /**
+   * The job scheduler.
+   * @ignore
+   */
+  private static scheduler = new LlamacppJobScheduler();
+
+  /**
+   * The function parameter schema validator.
+   * @ignore
+   */
+  private static functionSchemas = new LlamacppFunctionSchemaValidator();
+
+  /**
+   * The chat sessions kept between jobs, keyed by thread ID.
+   * @ignore
+   */
+  private static sessions = new LlamacppChatSessionRegistry((chat) => LlamacppGenerativeAIWorkerConnector.disposeSession(chat));
+
+  /**
+   * The IDs of the models being initialized, whose files are not evicted from the model store.
+   * @ignore
+   */
+  private static initializing: Set<string> = new Set();
+
+  /**
+   * The disposal timers of the adapter contexts without sequences in use.
+   * @ignore
+   */
+  private static idleContexts: Map<LlamaContext, ReturnType<typeof setTimeout>> = new Map();
+
+  /**
+   * The time in milliseconds after which an adapter context without sequences in use is disposed.
    * @ignore
    */
-  private static embeddingContext?: LlamaEmbeddingContext;
+  private static adapterContextIdleTimeout = DEFAULT_ADAPTER_CONTEXT_IDLE_TIMEOUT;
 
   /**
    * The base folder.
@@ -65,6 +204,24 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
    */
   private baseFolder?: string;
 
+  /**
+   * The store of the model files.
+   * @ignore
+   */
+  private modelStore?: LlamacppModelStore;
+
+  /**
+   * The store of the chat sessions saved to disk.
+   * @ignore
+   */
+  private sessionStore?: LlamacppSessionStore;
+
+  /**
+   * The abort controllers of the running jobs, keyed by job ID.
+   * @ignore
+   */
+  private jobs: Map<string, AbortController> = new Map();
+
   /**
    * The constructor.
    * @param options The options.
@@ -76,14 +233,32 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
     if (this.options?.instructions) {
       this.instructions = this.options.instructions;
     }
-    if (this.options?.maxTokens) {
+    if (this.options?.maxTokens !== undefined) {
       this.maxTokens = this.options.maxTokens;
     }
-    if (this.options?.temperature) {
+    if (this.options?.temperature !== undefined) {
       this.temperature = this.options.temperature;
     }
 
     this.baseFolder = this.options?.baseFolder;
+    if (this.baseFolder) {
+      this.modelStore = new LlamacppModelStore(
+        this.baseFolder,
+        LlamacppGenerativeAIWorkerConnector.downloader,
+        (id) => LlamacppGenerativeAIWorkerConnector.models.has(id) || LlamacppGenerativeAIWorkerConnector.initializing.has(id),
+        this.options?.modelQuota,
+        this.options?.modelRetention,
+      );
+    }
+    if (this.baseFolder && this.options?.persistSessions) {
+      this.sessionStore = new LlamacppSessionStore(`${this.baseFolder}/sessions`);
+    }
+    LlamacppGenerativeAIWorkerConnector.residency.setBudget(this.options?.ramBudget, this.options?.vramBudget);
+    LlamacppGenerativeAIWorkerConnector.sessions.setLimits(this.options?.maxSessions, this.options?.sessionIdleTimeout);
+    LlamacppGenerativeAIWorkerConnector.scheduler.setLimit(this.options?.maxConcurrentJobs);
+    if (this.options?.adapterContextIdleTimeout !== undefined) {
+      LlamacppGenerativeAIWorkerConnector.adapterContextIdleTimeout = this.options.adapterContextIdleTimeout;
+    }
   }
 
   /**
@@ -105,6 +280,47 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
     };
   }
 
+  /**
+   * Get the state of the job queue of a model.
+   * @param modelId The model ID.
+   * @returns The number of waiting and running jobs and their wait times.
+   */
+  static getQueueState(modelId: string): ILlamacppJobQueueState {
+    return LlamacppGenerativeAIWorkerConnector.scheduler.getState(modelId);
+  }
+
+  /**
+   * Get the initialized models with their capabilities and load state.
+   * @returns The models.
+   */
+  static getModels(): ILlamacppModelInfo[] {
+    const models: ILlamacppModelInfo[] = [];
+    for (const [id, { model, contexts }] of LlamacppGenerativeAIWorkerConnector.models) {
+      const context = contexts?.get('');
+      models.push({
+        id,
+        outputType: model.outputType,
+        metadata: model.metadata,
+        loaded: !!model.model,
+        contextSize: context?.contextSize,
+        activeSequences: contexts && contexts.size > 0
+          ? [...contexts.values()].reduce((active, adapterContext) => active + adapterContext.totalSequences - adapterContext.sequencesLeft, 0)
+          : undefined,
+        workflows: model.workflows.size,
+      });
+    }
+    return models;
+  }
+
+  /**
+   * Use an existing Llama engine instead of loading one, to share it with the application or to replace it in tests.
+   * It must be set before the first model is initialized.
+   * @param engine The Llama engine.
+   */
+  static setEngine(engine: Llama): void {
+    LlamacppGenerativeAIWorkerConnector.engine = engine;
+  }
+
   /**
    * Get the Llama engine.
    * @returns A promise that resolves with the Llama engine.
@@ -136,11 +352,42 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
   /**
    * Get a model context.
    * @param id The model ID.
+   * @param adapterKey The key of the LoRA adapter and scale of the context, if any.
    * @returns The model context.
    * @ignore
    */
-  private static getContext(id: string): LlamaContext | undefined {
-    return LlamacppGenerativeAIWorkerConnector.models.get(id)?.context;
+  private static getContext(id: string, adapterKey?: string): LlamaContext | undefined {
+    return LlamacppGenerativeAIWorkerConnector.models.get(id)?.contexts?.get(adapterKey ?? '');
+  }
+
+  /**
+   * Get a model embedding context.
+   * @param id The model ID.
+   * @returns The model embedding context.
+   * @ignore
+   */
+  private static getEmbeddingContext(id: string): LlamaEmbeddingContext | undefined {
+    return LlamacppGenerativeAIWorkerConnector.models.get(id)?.embeddingContext;
+  }
+
+  /**
+   * Get the context size of a model embedding context.
+   * @param id The model ID.
+   * @returns The context size in tokens.
+   * @ignore
+   */
+  private static getEmbeddingContextSize(id: string): number | undefined {
+    return LlamacppGenerativeAIWorkerConnector.models.get(id)?.embeddingContextSize;
+  }
+
+  /**
+   * Get a model ranking context.
+   * @param id The model ID.
+   * @returns The model ranking context.
+   * @ignore
+   */
+  private static getRankingContext(id: string): LlamaRankingContext | undefined {
+    return LlamacppGenerativeAIWorkerConnector.models.get(id)?.rankingContext;
   }
 
   /**
@@ -163,15 +410,58 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
   }
 
   /**
-   * Set a model context.
+   * Set a model context, counting its memory in the residency of the model.
    * @param id The model ID.
    * @param context The model context.
+   * @param adapterKey The key of the LoRA adapter and scale of the context, if any.
+   * @ignore
+   */
+  private static setContext(id: string, context: LlamaContext | undefined, adapterKey?: string): void {
+    const existingModel = LlamacppGenerativeAIWorkerConnector.models.get(id);
+    if (existingModel) {
+      existingModel.contexts ??= new Map();
+      const previous = existingModel.contexts.get(adapterKey ?? '');
+      if (previous && previous !== context) {
+        clearTimeout(LlamacppGenerativeAIWorkerConnector.idleContexts.get(previous));
+        LlamacppGenerativeAIWorkerConnector.idleContexts.delete(previous);
+      }
+      if (context) {
+        existingModel.contexts.set(adapterKey ?? '', context);
+        LlamacppGenerativeAIWorkerConnector.residency.trackContext(id, adapterKey ?? '', context.memoryUsage);
+      } else {
+        existingModel.contexts.delete(adapterKey ?? '');
+        LlamacppGenerativeAIWorkerConnector.residency.untrackContext(id, adapterKey ?? '');
+      }
+      LlamacppGenerativeAIWorkerConnector.models.set(id, existingModel);
+    }
+  }
+
+  /**
+   * Set a model embedding context.
+   * @param id The model ID.
+   * @param embeddingContext The model embedding context.
+   * @param embeddingContextSize The context size of the embedding context in tokens.
+   * @ignore
+   */
+  private static setEmbeddingContext(id: string, embeddingContext: LlamaEmbeddingContext | undefined, embeddingContextSize?: number): void {
+    const existingModel = LlamacppGenerativeAIWorkerConnector.models.get(id);
+    if (existingModel) {
+      existingModel.embeddingContext = embeddingContext;
+      existingModel.embeddingContextSize = embeddingContextSize;
+      LlamacppGenerativeAIWorkerConnector.models.set(id, existingModel);
+    }
+  }
+
+  /**
+   * Set a model ranking context.
+   * @param id The model ID.
+   * @param rankingContext The model ranking context.
    * @ignore
    */
-  private static setContext(id: string, context: LlamaContext | undefined): void {
+  private static setRankingContext(id: string, rankingContext: LlamaRankingContext | undefined): void {
     const existingModel = LlamacppGenerativeAIWorkerConnector.models.get(id);
     if (existingModel) {
-      existingModel.context = context;
+      existingModel.rankingContext = rankingContext;
       LlamacppGenerativeAIWorkerConnector.models.set(id, existingModel);
     }
   }
@@ -185,13 +475,170 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
     LlamacppGenerativeAIWorkerConnector.models.delete(id);
   }
 
+  /**
+   * Load a text model, evicting the least recently used idle models if it does not fit in the memory budget.
+   * @param id The model ID.
+   * @param modelObj The model.
+   * @returns A promise that resolves with the loaded model.
+   * @ignore
+   */
+  private static async loadModel(id: string, modelObj: ILlamacppGenerativeAIWorkerModel): Promise<LlamaModel> {
+    const engine = await LlamacppGenerativeAIWorkerConnector.getEngine();
+    const fileSize = statSync(modelObj.pathName).size;
+    const evictions = await LlamacppGenerativeAIWorkerConnector.residency.getEvictions({
+      ram: engine.gpu ? 0 : fileSize,
+      vram: engine.gpu ? fileSize : 0,
+    }, engine);
+
+    for (const evictedId of evictions) {
+      const evicted = LlamacppGenerativeAIWorkerConnector.models.get(evictedId);
+      if (!evicted?.model.model) {
+        continue;
+      }
+      console.log('Evicting model', evictedId);
+      for (const chat of LlamacppGenerativeAIWorkerConnector.sessions.evictModel(evictedId)) {
+        await LlamacppGenerativeAIWorkerConnector.disposeSession(chat, true);
+      }
+      for (const [adapterKey, context] of evicted.contexts ?? []) {
+        await context.dispose();
+        LlamacppGenerativeAIWorkerConnector.setContext(evictedId, undefined, adapterKey || undefined);
+      }
+      await evicted.model.model.dispose();
+      evicted.model.model = undefined;
+      LlamacppGenerativeAIWorkerConnector.setModel(evictedId, evicted.model);
+      LlamacppGenerativeAIWorkerConnector.residency.untrack(evictedId);
+    }
+
+    console.log('Loading model', id);
+    const model = await LlamacppGenerativeAIWorkerConnector.loadModelFile(engine, modelObj);
+    modelObj.model = model;
+    LlamacppGenerativeAIWorkerConnector.setModel(id, modelObj);
+    LlamacppGenerativeAIWorkerConnector.residency.track(id, model.memoryUsage);
+    return model;
+  }
+
+  /**
+   * Load a model file with the load options of the model.
+   * @param engine The engine.
+   * @param modelObj The model.
+   * @returns A promise that resolves with the loaded model.
+   * @ignore
+   */
+  private static async loadModelFile(engine: Llama, modelObj: ILlamacppGenerativeAIWorkerModel): Promise<LlamaModel> {
+    const loadOptions = modelObj.loadOptions ?? {};
+    return engine.loadModel({
+      modelPath: modelObj.pathName,
+      gpuLayers: loadOptions.gpuLayers,
+      useMmap: loadOptions.useMmap,
+      useMlock: loadOptions.useMlock ?? false,
+      defaultContextFlashAttention: loadOptions.flashAttention ?? true,
+      experimentalDefaultContextKvCacheKeyType: loadOptions.kvCacheKeyType,
+      experimentalDefaultContextKvCacheValueType: loadOptions.kvCacheValueType,
+    });
+  }
+
+  /**
+   * Create a context of a model with the load options of the model.
+   * An explicit context size is never shrunk to fit in memory, a clear error is raised instead.
+   * @param modelId The model ID.
+   * @param model The model.
+   * @param loadOptions The load options of the model.
+   * @param create Creates the context with the given size options.
+   * @returns A promise that resolves with the context.
+   * @ignore
+   */
+  private static async createModelContext<T>(modelId: string, model: LlamaModel, loadOptions: ILlamacppModelLoadOptions | undefined, create: (options: { contextSize?: number, batchSize?: number, threads?: number, failedCreationRemedy?: false }) => Promise<T>): Promise<T> {
+    const { contextSize, batchSize, threads } = loadOptions ?? {};
+    if (contextSize !== undefined && contextSize > model.trainContextSize) {
+      throw new LlamacppModelConfigError(`Context size ${contextSize} of model ${modelId} exceeds the ${model.trainContextSize} tokens the model was trained with`);
+    }
+
+    try {
+      return await create({
+        contextSize,
+        batchSize,
+        threads,
+        failedCreationRemedy: contextSize !== undefined ? false : undefined,
+      });
+    } catch (e) {
+      if (contextSize !== undefined && e instanceof InsufficientMemoryError) {
+        throw new LlamacppModelConfigError(`Context size ${contextSize} of model ${modelId} does not fit in the available memory, use a smaller context size, fewer sequences or a quantized KV cache`);
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Dispose a chat session and its context sequence, and the context once none of its sequences are in use.
+   * An adapter context is only disposed after the adapter context idle timeout, and a save of the session in progress is awaited first.
+   * @param chat The chat session.
+   * @param keepContext Whether to keep the context even if none of its sequences are in use.
+   * @returns A promise that resolves when the session is disposed.
+   * @ignore
+   */
+  private static async disposeSession(chat: ILlamacppChatSession, keepContext = false): Promise<void> {
+    const { modelId, adapterKey, context, sequence, session, draftModelId, draftSequence } = chat;
+    await chat.saving;
+    if (!session.disposed) {
+      session.dispose();
+    }
+    if (!sequence.disposed) {
+      sequence.dispose();
+    }
+    if (draftSequence && !draftSequence.disposed) {
+      const draftContext = draftSequence.context;
+      draftSequence.dispose();
+      if (!keepContext && !draftContext.disposed && draftContext.sequencesLeft === draftContext.totalSequences) {
+        await draftContext.dispose();
+        if (LlamacppGenerativeAIWorkerConnector.getContext(draftModelId!, DRAFT_CONTEXT_KEY) === draftContext) {
+          LlamacppGenerativeAIWorkerConnector.setContext(draftModelId!, undefined, DRAFT_CONTEXT_KEY);
+        }
+      }
+    }
+    if (!keepContext && !context.disposed && context.sequencesLeft === context.totalSequences) {
+      if (adapterKey) {
+        LlamacppGenerativeAIWorkerConnector.scheduleContextDisposal(modelId, context, adapterKey);
+        return;
+      }
+      await context.dispose();
+      if (LlamacppGenerativeAIWorkerConnector.getContext(modelId, adapterKey) === context) {
+        LlamacppGenerativeAIWorkerConnector.setContext(modelId, undefined, adapterKey);
+      }
+    }
+  }
+
+  /**
+   * Dispose an adapter context once it stays without sequences in use for the idle timeout,
+   * so the adapter is not loaded again for every job.
+   * @param modelId The model ID.
+   * @param context The adapter context.
+   * @param adapterKey The key of the LoRA adapter and scale of the context.
+   * @ignore
+   */
+  private static scheduleContextDisposal(modelId: string, context: LlamaContext, adapterKey: string): void {
+    const { idleContexts } = LlamacppGenerativeAIWorkerConnector;
+    clearTimeout(idleContexts.get(context));
+    const timer = setTimeout(() => {
+      idleContexts.delete(context);
+      if (context.disposed || context.sequencesLeft < context.totalSequences) {
+        return;
+      }
+      if (LlamacppGenerativeAIWorkerConnector.getContext(modelId, adapterKey) === context) {
+        LlamacppGenerativeAIWorkerConnector.setContext(modelId, undefined, adapterKey);
+      }
+      context.dispose().catch((e) => console.error(e));
+    }, LlamacppGenerativeAIWorkerConnector.adapterContextIdleTimeout);
+    timer.unref?.();
+    idleContexts.set(context, timer);
+  }
+
   /**
    * Initialize the machine learning model.
    * @param workflowId The workflow ID.
    * @param models The models to initialize.
    */
   async initialize(workflowId: string, models: Map<string, IGenerativeAIModel>): Promise<void> {
-    if (!this.baseFolder) {
+    if (!this.baseFolder || !this.modelStore) {
       throw new Error('Base folder not set');
     }
 
@@ -202,62 +649,100 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
       }
       let model = LlamacppGenerativeAIWorkerConnector.getModel(modelName);
       if (!model) {
+        const loadOptions = this.getLoadOptions(modelObj.id);
+        // The files of the model are not evicted while it is initialized, since it is only registered as in use once they are all fetched.
+        LlamacppGenerativeAIWorkerConnector.initializing.add(modelObj.id);
         try {
-          if (!existsSync(`${this.baseFolder}/${modelObj.id}.gguf`)) {
-            console.log(`Downloading model ${modelObj.id}: ${modelObj.sourceUrl}`);
-            await new Promise<void>((resolve, reject) => {
-              const fileStream = createWriteStream(`${this.baseFolder}/${modelObj.id}.gguf`);
-              https.get(modelObj.sourceUrl, (response) => {
-                response.pipe(fileStream);
-          
-                fileStream.on('finish', () => {
-                  fileStream.close(() => {
-                    resolve();
-                  });
-                });
-              }).on('error', (err) => {
-                unlinkSync(`${this.baseFolder}/${modelObj.id}.gguf`);
-                console.error(`Error downloading the file: ${err.message}`);
-                reject(err);
-              });
-            });
+          // The adapters are fetched first, so an adapter that fails to download never discards the model file.
+          let adapters: ILlamacppGenerativeAIWorkerModel['adapters'];
+          for (const adapter of (modelObj as ILlamacppGenerativeAIModel).adapters ?? []) {
+            adapters ??= {};
+            adapters[adapter.id] = {
+              pathName: await this.modelStore.fetch({
+                id: `${modelObj.id}.lora.${adapter.id}`,
+                sourceUrl: adapter.sourceUrl,
+                sha256: adapter.sha256,
+              }, this.options?.onDownloadProgress, modelObj.id),
+              scale: adapter.scale,
+            };
           }
-
-          modelObj.pathName = `${this.baseFolder}/${modelObj.id}.gguf`;
-
-          if (modelObj.outputType === 'vector' as GenerativeAIModelOutputType.Vector) {
-            const modelInstance = await engine.loadModel({
-              modelPath: modelObj.pathName,
-              useMlock: false,
-            });
-            model = {
-              pathName: modelObj.pathName,
-              outputType: modelObj.outputType,
-              model: modelInstance,
-              workflows: new Set(),
+          try {
+            modelObj.pathName = await this.modelStore.fetch(modelObj as ILlamacppGenerativeAIModel, this.options?.onDownloadProgress);
+            const metadata = await LlamacppGenerativeAIWorkerConnector.inspector.inspect(modelObj.pathName, engine);
+            console.log(`Model ${modelObj.id}: ${metadata.architecture}, ${metadata.parameterCount} parameters, ${metadata.quantization ?? 'unknown quantization'}`);
+
+            const isRanking = (modelObj.outputType as LlamacppModelOutputType) === 'ranking';
+            if (isRanking && !metadata.supportsRanking) {
+              throw new LlamacppModelConfigError(`Model ${modelObj.id} is not a ranking model`);
             }
-            if (!LlamacppGenerativeAIWorkerConnector.embeddingContext) {
-              LlamacppGenerativeAIWorkerConnector.embeddingContext = await modelInstance.createEmbeddingContext();
+
+            let embeddingContext: LlamaEmbeddingContext | undefined;
+            let embeddingContextSize: number | undefined;
+            let rankingContext: LlamaRankingContext | undefined;
+            if (modelObj.outputType === 'vector' as GenerativeAIModelOutputType.Vector || isRanking) {
+              model = {
+                pathName: modelObj.pathName,
+                outputType: modelObj.outputType,
+                metadata,
+                loadOptions,
+                adapters,
+                workflows: new Set(),
+              }
+              const modelInstance = await LlamacppGenerativeAIWorkerConnector.loadModelFile(engine, model);
+              model.model = modelInstance;
+              LlamacppGenerativeAIWorkerConnector.residency.track(modelName, modelInstance.memoryUsage, true);
+              try {
+                if (isRanking) {
+                  rankingContext = await LlamacppGenerativeAIWorkerConnector.createModelContext(modelName, modelInstance, loadOptions, (contextOptions) => modelInstance.createRankingContext(contextOptions));
+                } else {
+                  // The embedding context does not expose its size, so the size it gets by default is resolved the same way here to chunk the inputs.
+                  embeddingContextSize = loadOptions?.contextSize ?? await modelInstance.fileInsights.configurationResolver.resolveContextContextSize('auto', {
+                    modelGpuLayers: modelInstance.gpuLayers,
+                    modelTrainContextSize: modelInstance.trainContextSize,
+                    flashAttention: modelInstance.defaultContextFlashAttention,
+                    kvCacheKeyType: modelInstance.defaultContextKvCacheKeyType,
+                    kvCacheValueType: modelInstance.defaultContextKvCacheValueType,
+                    batchSize: loadOptions?.batchSize,
+                    isEmbeddingContext: true,
+                  });
+                  embeddingContext = await LlamacppGenerativeAIWorkerConnector.createModelContext(modelName, modelInstance, loadOptions, (contextOptions) => modelInstance.createEmbeddingContext(contextOptions));
+                }
+              } catch (e) {
+                // The model is not registered yet, so it would never be disposed or untracked otherwise.
+                await modelInstance.dispose();
+                LlamacppGenerativeAIWorkerConnector.residency.untrack(modelName);
+                throw e;
+              }
+            } else {
+              model = {
+                pathName: modelObj.pathName,
+                outputType: modelObj.outputType,
+                metadata,
+                loadOptions,
+                adapters,
+                workflows: new Set(),
+              }
             }
-          } else {
-            model = {
-              pathName: modelObj.pathName,
-              outputType: modelObj.outputType,
-              workflows: new Set(),
+
+            model.workflows.add(workflowId);
+            LlamacppGenerativeAIWorkerConnector.setModel(modelName, model);
+            LlamacppGenerativeAIWorkerConnector.setEmbeddingContext(modelName, embeddingContext, embeddingContextSize);
+            LlamacppGenerativeAIWorkerConnector.setRankingContext(modelName, rankingContext);
+            this.workflowId = workflowId;
+          } catch (e) {
+            console.error(e);
+            if (!(e instanceof LlamacppModelConfigError)) {
+              this.modelStore.remove(modelObj.id);
             }
+            throw e;
           }
-
-          model.workflows.add(workflowId);
-          LlamacppGenerativeAIWorkerConnector.setModel(modelName, model);
-          this.workflowId = workflowId;
-        } catch (e) {
-          console.error(e);
-          unlinkSync(`${this.baseFolder}/${modelObj.id}.gguf`);
-          throw e;
+        } finally {
+          LlamacppGenerativeAIWorkerConnector.initializing.delete(modelObj.id);
         }
       } else {
         model.workflows.add(workflowId);
         LlamacppGenerativeAIWorkerConnector.setModel(modelName, model);
+        this.modelStore.touch(modelObj.id);
         this.workflowId = workflowId;
       }
     }
@@ -271,21 +756,76 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
     if (!this.workflowId) {
       return;
     }
-    if (LlamacppGenerativeAIWorkerConnector.embeddingContext) {
-      await LlamacppGenerativeAIWorkerConnector.embeddingContext.dispose();
-      LlamacppGenerativeAIWorkerConnector.embeddingContext = undefined;
-    }
     for (const [id, model] of LlamacppGenerativeAIWorkerConnector.models) {
       model.model.workflows.delete(this.workflowId);
       if (model.model.workflows.size === 0) {
+        for (const chat of LlamacppGenerativeAIWorkerConnector.sessions.evictModel(id)) {
+          await LlamacppGenerativeAIWorkerConnector.disposeSession(chat);
+        }
+        if (model.embeddingContext) {
+          await model.embeddingContext.dispose();
+        }
+        if (model.rankingContext) {
+          await model.rankingContext.dispose();
+        }
         if (model.model.model) {
           await model.model.model.dispose();
         }
         LlamacppGenerativeAIWorkerConnector.deleteModel(id);
+        LlamacppGenerativeAIWorkerConnector.residency.untrack(id);
+        this.modelStore?.touch(id);
       } else {
         LlamacppGenerativeAIWorkerConnector.setModel(id, model.model);
       }
     }
+    this.modelStore?.collect();
+  }
+
+  /**
+   * Cancel a running job. The job returns the output generated so far.
+   * @param jobId The job ID.
+   * @returns True if a running job was cancelled.
+   */
+  cancelJob(jobId: string): boolean {
+    const controller = this.jobs.get(jobId);
+    if (!controller) {
+      return false;
+    }
+    controller.abort();
+    return true;
+  }
+
+  /**
+   * Create the abort controller of a job, linked to the job signal and registered under the job ID.
+   * @param options The job options.
+   * @returns The abort controller.
+   * @ignore
+   */
+  private startJob(options: ILlamacppGenerativeAIWorkerJobOptions): AbortController {
+    const controller = new AbortController();
+    if (options.signal) {
+      if (options.signal.aborted) {
+        controller.abort(options.signal.reason);
+      } else {
+        options.signal.addEventListener('abort', () => controller.abort(options.signal?.reason), { once: true });
+      }
+    }
+    if (options.jobId) {
+      this.jobs.set(options.jobId, controller);
+    }
+    return controller;
+  }
+
+  /**
+   * Unregister the abort controller of a job.
+   * @param options The job options.
+   * @param controller The abort controller.
+   * @ignore
+   */
+  private endJob(options: ILlamacppGenerativeAIWorkerJobOptions, controller: AbortController): void {
+    if (options.jobId && this.jobs.get(options.jobId) === controller) {
+      this.jobs.delete(options.jobId);
+    }
   }
 
   getEngineType(): GenerativeAIEngineType {
@@ -297,341 +837,622 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
    * @param parameters The job parameters.
    * @returns A promise that resolves with the job result.
    */
-  async processJob(parameters: GenerativeAIWorkerConnectorParameters, options: IGenerativeAIWorkerOptions): Promise<GenerativeAIWorkerConnectorResult> {
-    const engine = await LlamacppGenerativeAIWorkerConnector.getEngine();
+  async processJob(parameters: ILlamacppGenerativeAIWorkerConnectorParameters, options: ILlamacppGenerativeAIWorkerJobOptions): Promise<ILlamacppGenerativeAIWorkerConnectorResult> {
     const modelObj = LlamacppGenerativeAIWorkerConnector.getModel(options.model.id);
 
     if (!modelObj) {
       throw new Error('Model not initialized');
     }
 
-    let model = modelObj.model;
-    if (!model) {
-      for (const [id, m] of LlamacppGenerativeAIWorkerConnector.models.entries()) {
-        if (m.model.outputType === 'text' as GenerativeAIModelOutputType.Text && m.model.model) {
-          console.log('Disposing model', id);
-          await m.model.model.dispose();
-          m.model.model = undefined;
-          LlamacppGenerativeAIWorkerConnector.setModel(id, m.model);
+    let slot: { model: LlamaModel, draftModel?: LlamaModel, waitTime: number, release: () => void } | undefined;
+    let chat: ILlamacppChatSession | undefined;
+    let completed = false;
+    const abortController = this.startJob(options);
+
+    try {
+      const isVector = options.model.outputType === 'vector' as GenerativeAIModelOutputType.Vector;
+      slot = await this.acquireSlot(modelObj, options, isVector ? 'batch' : 'normal', abortController.signal);
+      const { model } = slot;
+
+      if (modelObj.outputType === 'ranking') {
+        const rankingContext = LlamacppGenerativeAIWorkerConnector.getRankingContext(options.model.id);
+        if (!rankingContext) {
+          throw new Error('Ranking context not initialized');
         }
+        const documents = parameters.documents ?? [];
+        const scores = await rankingContext.rankAll(parameters.prompt, documents);
+        return {
+          type: 'prompt' as GenerativeAIWorkerConnectorTypes,
+          output: scores,
+          rankings: documents
+            .map((document, index) => ({ index, document, score: scores[index] }))
+            .sort((a, b) => b.score - a.score),
+          queueWaitTime: slot.waitTime,
+        };
       }
-      console.log('Loading model', options.model.id);
-      model = await engine.loadModel({
-        modelPath: modelObj.pathName,
-        useMlock: false,
-        defaultContextFlashAttention: true,
-      });
-      modelObj.model = model;
-      LlamacppGenerativeAIWorkerConnector.setModel(options.model.id, modelObj);
-    }
 
-    if (options.model.outputType === 'vector' as GenerativeAIModelOutputType.Vector) {
-      if (!LlamacppGenerativeAIWorkerConnector.embeddingContext) {
-        throw new Error('Embedding context not initialized');
+      if (isVector) {
+        const embeddingContext = LlamacppGenerativeAIWorkerConnector.getEmbeddingContext(options.model.id);
+        const contextSize = LlamacppGenerativeAIWorkerConnector.getEmbeddingContextSize(options.model.id);
+        if (!embeddingContext || !contextSize) {
+          throw new Error('Embedding context not initialized');
+        }
+        const pooling = parameters.pooling ?? this.options?.embeddingPooling ?? 'mean';
+        const preprocessing = {
+          ...this.options?.embeddingPreprocessing,
+          ...this.options?.models?.[options.model.id]?.embeddingPreprocessing,
+        };
+        const prompts = parameters.prompts ?? [parameters.prompt];
+        const vectors: number[][] = [];
+        const chunks: ILlamacppEmbeddingChunk[] = [];
+        for (const [index, text] of prompts.entries()) {
+          const embedding = await this.getVector(embeddingContext, text, index, {
+            contextSize,
+            pooling,
+            preprocessing,
+            inputType: parameters.inputType,
+          });
+          vectors.push(embedding.vector);
+          chunks.push(...embedding.chunks);
+        }
+        return {
+          type: 'prompt' as GenerativeAIWorkerConnectorTypes,
+          output: parameters.prompts ? undefined : vectors[0],
+          vectors: parameters.prompts ? vectors : undefined,
+          chunks: pooling === 'all' ? chunks : undefined,
+          queueWaitTime: slot.waitTime,
+        };
       }
-      const vector = await this.getVector(LlamacppGenerativeAIWorkerConnector.embeddingContext, parameters.prompt);
+
+      chat = await this.openSession(model, parameters, options, slot.draftModel);
+      const result = await this.generate(chat, model, parameters, options, abortController.signal);
+      completed = result.stopReason !== 'abort';
       return {
-        type: 'prompt' as GenerativeAIWorkerConnectorTypes,
-        output: vector,
+        ...result,
+        queueWaitTime: slot.waitTime,
       };
+    } catch (e) {
+      console.error(e);
+      throw e;
+    } finally {
+      this.endJob(options, abortController);
+      if (chat) {
+        await this.closeSession(chat, completed);
+      }
+      slot?.release();
     }
+  }
 
-    let context: LlamaContext | undefined;
-    let sequence: LlamaContextSequence | undefined;
-    let session: LlamaChatSession | undefined;
+  /**
+   * Stream a job.
+   * The stream ends with a summary chunk marked as final, and generation errors are thrown by the generator.
+   * @param parameters The job parameters.
+   * @returns An async generator that yields the responses.
+   */
+  async *processJobStream(parameters: ILlamacppGenerativeAIWorkerConnectorParameters, options: ILlamacppGenerativeAIWorkerJobOptions): AsyncGenerator<ILlamacppGenerativeAIWorkerConnectorResult> {
+    const modelObj = LlamacppGenerativeAIWorkerConnector.getModel(options.model.id);
 
-    try {
-      context = LlamacppGenerativeAIWorkerConnector.getContext(options.model.id);
-      if (!context) {
-        context = await model.createContext({
-          sequences: options.sequences,
-        });
-        LlamacppGenerativeAIWorkerConnector.setContext(options.model.id, context);
-      }
-      console.log('Context size', context.contextSize);
-      const { prompt, functions, reasoning, grammar, maxTokens, temperature, instructions } = parameters;
-      sequence = context.getSequence();
-      const { LlamaChatSession } = await import('node-llama-cpp');
-      session = new LlamaChatSession({
-        contextSequence: sequence,
-        systemPrompt: instructions ?? this.instructions,
-      });
+    if (!modelObj) {
+      throw new Error('Model not initialized');
+    }
 
-      const startingInputTokens = sequence.tokenMeter.usedInputTokens;
-      const startingOutputTokens = sequence.tokenMeter.usedOutputTokens;
-
-      this.setupSession(session, parameters);
-
-      let promptOptions: {
-        functions?: {[key: string]: any},
-        grammar?: any,
-      } = {
-        functions: (functions && functions.size > 0) ? await this.getFunctions(functions) : undefined,
-        grammar: undefined,
-      }
-      if (grammar) {
-        if (grammar === 'json' || grammar === 'json_arr') {
-          promptOptions.functions = undefined;
-          const engine = await LlamacppGenerativeAIWorkerConnector.getEngine();
-          promptOptions.grammar = await engine.getGrammarFor(grammar);
-        } else if (grammar === 'if_else') {
-          promptOptions.functions = undefined;
-          const engine = await LlamacppGenerativeAIWorkerConnector.getEngine();
-          promptOptions.grammar = await engine.createGrammarForJsonSchema({
-            type: 'object',
-            properties: {
-              'condition_result': {
-                type: 'boolean'
-              }
-            },
-            required: ['result'],
-            additionalProperties: false,
-          });
-        } else if (grammar !== 'default') {
-          promptOptions.functions = undefined;
-          const engine = await LlamacppGenerativeAIWorkerConnector.getEngine();
-          promptOptions.grammar = await engine.createGrammarForJsonSchema(grammar);
-        }
-      }
+    if (options.model.outputType === 'vector' as GenerativeAIModelOutputType.Vector) {
+      throw new Error('Vector output type not supported for streaming');
+    }
 
-      let output = '';
-      let finalPrompt = '';
-      if (reasoning) {
-        let thinking = '';
-        thinking += await session.prompt(`Analyze the following question and explain the steps needed to answer it without actually providing the final answer. Explain the reasoning process, key considerations, and possible strategies to find the answer.\nQuestion: ${prompt}`, {
-          maxTokens: maxTokens ?? this.maxTokens,
-          temperature: temperature ?? this.temperature,
-          ...promptOptions,
-        });
+    if (modelObj.outputType === 'ranking') {
+      throw new Error('Ranking output type not supported for streaming');
+    }
+
+    let slot: { model: LlamaModel, draftModel?: LlamaModel, waitTime: number, release: () => void } | undefined;
+    let chat: ILlamacppChatSession | undefined;
+    let completed = false;
+
+    const abortController = this.startJob(options);
+    let pending: Promise<unknown> | undefined;
+
+    try {
+      slot = await this.acquireSlot(modelObj, options, 'interactive', abortController.signal);
+      const { model } = slot;
+      chat = await this.openSession(model, parameters, options, slot.draftModel);
+
+      // The generation runs detached from the generator, its events are buffered until the consumer pulls them.
+      const events: ({ type: 'chunk', chunk: ILlamacppGenerativeAIWorkerConnectorResult } | { type: 'end', result: ILlamacppGenerativeAIWorkerConnectorResult } | { type: 'error', error: unknown })[] = [];
+      let notify: (() => void) | undefined;
+      const push = (event: typeof events[number]) => {
+        events.push(event);
+        notify?.();
+        notify = undefined;
+      };
+
+      const startedAt = Date.now();
+      let firstTokenAt: number | undefined;
+      pending = this.generate(chat, model, parameters, options, abortController.signal, (chunk) => push({ type: 'chunk', chunk }))
+        .then((result) => push({ type: 'end', result }))
+        .catch((error) => push({ type: 'error', error }));
 
-        if (thinking.length < 500) {
-          thinking += await session.prompt(`Analyze the following question and explain the steps needed to answer it without actually providing the final answer. Explain the reasoning process, key considerations, and possible strategies to find the answer.\nInitial thoughts:${thinking}\nQuestion: ${prompt}`, {
-            maxTokens: maxTokens ?? this.maxTokens,
-            temperature: temperature ?? this.temperature,
-            ...promptOptions,
+      while (true) {
+        if (events.length === 0) {
+          await new Promise<void>((resolve) => {
+            notify = resolve;
           });
         }
+        const event = events.shift()!;
 
-        output += `<think>${thinking}</think>\n\n`;
-        finalPrompt += `<think>${thinking}</think>\n\n`;
-      }
-      finalPrompt += prompt;
-      output += await session.prompt(finalPrompt, {
-        maxTokens: maxTokens ?? this.maxTokens,
-        temperature: temperature ?? this.temperature,
-        ...promptOptions,
-      });
+        if (event.type === 'error') {
+          throw event.error;
+        }
 
-      const inputTokens = sequence.tokenMeter.usedInputTokens - startingInputTokens;
-      const outputTokens = sequence.tokenMeter.usedOutputTokens - startingOutputTokens
+        if (event.type === 'end') {
+          const { result } = event;
+          const endedAt = Date.now();
+          completed = result.stopReason !== 'abort';
+          // The output and thought were already streamed, the final chunk only carries the summary.
+          yield {
+            ...result,
+            output: '',
+            thought: undefined,
+            queueWaitTime: slot.waitTime,
+            final: true,
+            timeToFirstToken: firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+            tokensPerSecond: firstTokenAt !== undefined && endedAt > firstTokenAt ? (result.outputTokens ?? 0) / ((endedAt - firstTokenAt) / 1000) : undefined,
+          };
+          break;
+        }
 
-      session.dispose();
-      sequence.dispose();
-      if (context.sequencesLeft === (options.sequences ?? 1)) {
-        await context.dispose();
-        LlamacppGenerativeAIWorkerConnector.setContext(options.model.id, undefined);
+        const { chunk } = event;
+        if (chunk.output !== '' || chunk.thought !== undefined) {
+          firstTokenAt ??= Date.now();
+        }
+        yield {
+          ...chunk,
+          queueWaitTime: slot.waitTime,
+        };
       }
-
-      return {
-        type: 'prompt' as GenerativeAIWorkerConnectorTypes,
-        output,
-        inputTokens,
-        outputTokens,
-      };
     } catch (e) {
-      if (session && !session.disposed) {
-        session.dispose();
-      }
-      if (sequence && !sequence.disposed) {
-        sequence.dispose();
-      }
-      if (context && !context.disposed && context.sequencesLeft === (options.sequences ?? 1)) {
-        await context.dispose();
-        LlamacppGenerativeAIWorkerConnector.setContext(options.model.id, undefined);
-      }
       console.error(e);
       throw e;
+    } finally {
+      // Runs when the consumer stops iterating too, so the detached generation must be stopped before the session goes away.
+      abortController.abort();
+      this.endJob(options, abortController);
+      await pending?.catch(() => undefined);
+      if (chat) {
+        await this.closeSession(chat, completed);
+      }
+      slot?.release();
     }
   }
 
   /**
-   * Stream a job.
+   * Generate the answer of a job in its chat session, the core shared by processJob and processJobStream.
+   * The session history is set up from the job, then the optional reasoning passes and the answer are generated.
+   * @param chat The chat session of the job.
+   * @param model The model.
    * @param parameters The job parameters.
-   * @returns An async generator that yields the responses.
+   * @param options The job options.
+   * @param signal The abort signal of the job.
+   * @param onChunk Called with each chunk of output, thought, function call or function result as it is generated.
+   * @returns A promise that resolves with the job result, without the queue wait time.
+   * @ignore
    */
-  async *processJobStream(parameters: IGenerativeAIPromptWorkerConnectorParameters, options: IGenerativeAIWorkerOptions): AsyncGenerator<IGenerativeAIWorkerConnectorPromptResult> {
-    const engine = await LlamacppGenerativeAIWorkerConnector.getEngine();
-    const modelObj = LlamacppGenerativeAIWorkerConnector.getModel(options.model.id);
+  private async generate(chat: ILlamacppChatSession, model: LlamaModel, parameters: ILlamacppGenerativeAIWorkerConnectorParameters, options: ILlamacppGenerativeAIWorkerJobOptions, signal: AbortSignal, onChunk?: (chunk: ILlamacppGenerativeAIWorkerConnectorResult) => void): Promise<ILlamacppGenerativeAIWorkerConnectorResult> {
+    const { prompt, functions, reasoning, grammar, maxTokens, temperature, structuredOutputRetries, sampling } = parameters;
+    const { sequence, session } = chat;
+
+    const startingInputTokens = sequence.tokenMeter.usedInputTokens;
+    const startingOutputTokens = sequence.tokenMeter.usedOutputTokens;
+    const startingPredictions = { ...sequence.tokenPredictions };
+    const { droppedTokens, summarizedTokens } = await this.setupSession(chat, parameters, signal);
+
+    let reasoningTokens = 0;
+    const getUsage = (): ILlamacppGenerativeAIWorkerConnectorResult => ({
+      type: 'prompt' as GenerativeAIWorkerConnectorTypes,
+      output: '',
+      inputTokens: sequence.tokenMeter.usedInputTokens - startingInputTokens,
+      outputTokens: sequence.tokenMeter.usedOutputTokens - startingOutputTokens,
+      reasoningTokens: reasoning ? reasoningTokens : undefined,
+      droppedHistoryTokens: droppedTokens,
+      summarizedHistoryTokens: summarizedTokens,
+    });
+    const emit = (chunk: Partial<ILlamacppGenerativeAIWorkerConnectorResult>) => onChunk?.({ ...getUsage(), ...chunk });
+
+    const functionCalls: ILlamacppFunctionCall[] = [];
+    // Aborted when the model calls functions past the round limit, so it is re-prompted without them.
+    const functionLimitController = new AbortController();
+    signal.addEventListener('abort', () => functionLimitController.abort(signal.reason), { once: true });
+    const grammarObj = await LlamacppGenerativeAIWorkerConnector.grammars.resolve(await LlamacppGenerativeAIWorkerConnector.getEngine(), grammar);
+    const promptOptions: {
+      functions?: {[key: string]: any},
+      grammar?: any,
+    } = grammarObj ? {
+      grammar: grammarObj,
+    } : {
+      functions: (functions && functions.size > 0) ? await this.getFunctions(functions, {
+        sequence,
+        maxRounds: parameters.maxFunctionCallRounds ?? this.options?.maxFunctionCallRounds ?? DEFAULT_MAX_FUNCTION_CALL_ROUNDS,
+        calls: functionCalls,
+        onCall: (functionCall) => emit({ functionCall }),
+        onResult: (functionResult) => emit({ functionResult }),
+        onLimit: () => functionLimitController.abort(),
+      }) : undefined,
+    };
+    const samplingOptions = await this.getSamplingOptions(model, sampling);
+
+    const reasoningSettings = this.getReasoningSettings(options.model.id);
+    let output = '';
+    let finalPrompt = '';
+    let thought: string | undefined;
+    if (reasoning && reasoningSettings.mode === 'prompted') {
+      // The reasoning passes run without the grammar and functions of the job, which only apply to the answer.
+      const chatHistory = session.getChatHistory();
+      const reasoningStartTokens = sequence.tokenMeter.usedOutputTokens;
+      let thinking = '';
+      const runReasoningPass = () => session.prompt(this.getReasoningPrompt(reasoningSettings.prompt, prompt, thinking), {
+        maxTokens: reasoningSettings.budget ?? maxTokens ?? this.maxTokens,
+        temperature: temperature ?? this.temperature,
+        ...samplingOptions,
+        signal,
+        stopOnAbortSignal: true,
+        onTextChunk: (text) => {
+          emit({ output: thinking === '' ? `<think>${text}` : text });
+          thinking += text;
+        },
+      });
 
-    if (!modelObj) {
-      throw new Error('Model not initialized');
+      await runReasoningPass();
+      if (thinking.length < 500 && !signal.aborted) {
+        await runReasoningPass();
+      }
+
+      // The analysis is passed in the final prompt, so it does not need to stay in the chat history.
+      session.setChatHistory(chatHistory);
+      reasoningTokens = sequence.tokenMeter.usedOutputTokens - reasoningStartTokens;
+      thought = thinking;
+      emit({ output: '</think>\n\n' });
+      output += `<think>${thinking}</think>\n\n`;
+      finalPrompt += `<think>${thinking}</think>\n\n`;
     }
+    finalPrompt += prompt;
+
+    let stopReason: LlamacppStopReason = 'abort';
+    let stopSequence: string | undefined;
+    let parsed: unknown;
+    let parseError: string | undefined;
+    if (!signal.aborted) {
+      const chatHistory = session.getChatHistory();
+      let budget = maxTokens ?? this.maxTokens;
+      let retries = grammarObj ? (structuredOutputRetries ?? this.options?.structuredOutputRetries ?? 0) : 0;
+      // A structured answer that may be retried is only streamed once it is final, so a truncated attempt is never emitted.
+      const bufferAnswer = retries > 0;
+      let answer = '';
+      while (true) {
+        let nativeThought = '';
+        let nativeReasoningTokens = 0;
+        const promptAnswer = (text: string, answerOptions: typeof promptOptions, answerSignal: AbortSignal) => session.promptWithMeta(text, {
+          maxTokens: budget,
+          temperature: temperature ?? this.temperature,
+          ...samplingOptions,
+          signal: answerSignal,
+          stopOnAbortSignal: true,
+          budgets: {
+            thoughtTokens: this.getThoughtBudget(reasoningSettings, reasoning),
+          },
+          ...answerOptions,
+          onResponseChunk: (chunk) => {
+            if (chunk.type === 'segment' && chunk.segmentType === 'thought') {
+              nativeThought += chunk.text;
+              nativeReasoningTokens += chunk.tokens.length;
+              if (reasoningSettings.mode === 'native') {
+                reasoningTokens = nativeReasoningTokens;
+              }
+              emit({ thought: chunk.text });
+            } else if (chunk.type === undefined && !bufferAnswer) {
+              emit({ output: chunk.text });
+            }
+          },
+        });
+        let response = await promptAnswer(finalPrompt, promptOptions, functionLimitController.signal);
+        answer = response.responseText;
+        if (functionLimitController.signal.aborted && !signal.aborted) {
+          response = await promptAnswer(FUNCTION_CALL_LIMIT_PROMPT, {}, signal);
+          answer = response.responseText;
+          // The history keeps the job prompt and the final answer only, so the next job of the thread extends it.
+          session.setChatHistory([...chatHistory, { type: 'user', text: finalPrompt }, session.getChatHistory().at(-1)!]);
+        }
+        if (reasoningSettings.mode === 'native') {
+          thought = nativeThought || undefined;
+          reasoningTokens = nativeReasoningTokens;
+        }
+        stopReason = this.getStopReason(response.stopReason);
+        stopSequence = response.customStopTrigger?.map((part) => typeof part === 'string' ? part : model.detokenize([part])).join('');
+        if (!grammarObj) {
+          break;
+        }
+
+        try {
+          parsed = LlamacppGenerativeAIWorkerConnector.grammars.parse(grammarObj, answer);
+          parseError = undefined;
+          break;
+        } catch (e) {
+          parsed = undefined;
+          parseError = (e as Error).message;
+        }
 
-    let model = modelObj.model;
-    if (!model) {
-      for (const [id, m] of LlamacppGenerativeAIWorkerConnector.models.entries()) {
-        if (m.model.outputType === 'text' as GenerativeAIModelOutputType.Text && m.model.model) {
-          console.log('Disposing model', id);
-          await m.model.model.dispose();
-          m.model.model = undefined;
-          LlamacppGenerativeAIWorkerConnector.setModel(id, m.model);
+        if (stopReason !== 'maxTokens' || retries <= 0) {
+          break;
         }
+        retries--;
+        budget *= 2;
+        console.log(`Structured output truncated, retrying with ${budget} tokens`);
+        session.setChatHistory(chatHistory);
       }
-      console.log('Loading model', options.model.id);
-      model = await engine.loadModel({
-        modelPath: modelObj.pathName,
-        useMlock: false,
-        defaultContextFlashAttention: true,
-      });
-      modelObj.model = model;
-      LlamacppGenerativeAIWorkerConnector.setModel(options.model.id, modelObj);
+      if (bufferAnswer && answer !== '') {
+        emit({ output: answer });
+      }
+      output += answer;
     }
 
-    if (options.model.outputType === 'vector' as GenerativeAIModelOutputType.Vector) {
-      throw new Error('Vector output type not supported for streaming');
+    let speculativeDecoding: ILlamacppSpeculativeDecodingStats | undefined;
+    if (sequence.tokenPredictor) {
+      const acceptedTokens = sequence.tokenPredictions.validated - startingPredictions.validated;
+      const predictedTokens = acceptedTokens + sequence.tokenPredictions.refuted - startingPredictions.refuted;
+      speculativeDecoding = {
+        predictedTokens,
+        acceptedTokens,
+        acceptanceRate: predictedTokens > 0 ? acceptedTokens / predictedTokens : 0,
+      };
     }
 
-    let context: LlamaContext | undefined;
-    let sequence: LlamaContextSequence | undefined;
-    let session: LlamaChatSession | undefined;
+    return {
+      ...getUsage(),
+      output,
+      speculativeDecoding,
+      stopReason,
+      stopSequence,
+      functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+      thought,
+      parsed,
+      parseError,
+    };
+  }
+
+  /**
+   * Wait for a free slot of the model of a job, then load the model if it is not resident.
+   * The model is marked as in use until the slot is released, so it is not evicted while the job runs.
+   * The draft model of the model, if any, is loaded and marked as in use along with it.
+   * The number of slots is the number of sequences of the contexts of the model, set by its first job, so every context has a sequence for each running job.
+   * @param modelObj The model.
+   * @param options The job options.
+   * @param priority The default priority of the job.
+   * @param signal The abort signal of the job.
+   * @returns A promise that resolves with the loaded model and draft model, the time the job waited and the function releasing the slot.
+   * @ignore
+   */
+  private async acquireSlot(modelObj: ILlamacppGenerativeAIWorkerModel, options: ILlamacppGenerativeAIWorkerJobOptions, priority: LlamacppJobPriority, signal: AbortSignal): Promise<{ model: LlamaModel, draftModel?: LlamaModel, waitTime: number, release: () => void }> {
+    const modelId = options.model.id;
+    const { scheduler, residency } = LlamacppGenerativeAIWorkerConnector;
+    const queuedAt = Date.now();
+    modelObj.sequences ??= Math.max(1, options.sequences ?? 1);
+    const releaseSlot = await scheduler.acquire(modelId, modelObj.sequences, options.priority ?? priority, signal);
+    const draftModelId = this.getDraftModelId(modelId, modelObj);
 
     try {
-      let context = LlamacppGenerativeAIWorkerConnector.getContext(options.model.id);
-      if (!context) {
-        context = await model.createContext({
-          sequences: options.sequences,
-        });
-        LlamacppGenerativeAIWorkerConnector.setContext(options.model.id, context);
-      }
-      console.log('Context size', context.contextSize);
-      const { prompt, functions, reasoning, grammar, maxTokens, temperature, instructions } = parameters;
-      sequence = context.getSequence();
-      const { LlamaChatSession } = await import('node-llama-cpp');
-      session = new LlamaChatSession({
-        contextSequence: sequence,
-        systemPrompt: instructions ?? this.instructions,
-      });
-
-      const startingInputTokens = sequence.tokenMeter.usedInputTokens;
-      const startingOutputTokens = sequence.tokenMeter.usedOutputTokens;
-
-      this.setupSession(session, parameters);
-
-      let promptOptions: {
-        functions?: {[key: string]: any},
-        grammar?: any,
-      } = {
-        functions: (functions && functions.size > 0) ? await this.getFunctions(functions) : undefined,
-        grammar: undefined,
-      }
-      if (grammar) {
-        if (grammar === 'json' || grammar === 'json_arr') {
-          promptOptions.functions = undefined;
-          promptOptions.grammar = await (await LlamacppGenerativeAIWorkerConnector.getEngine()).getGrammarFor(grammar);
-        } else if (grammar !== 'default') {
-          promptOptions.grammar = await (await LlamacppGenerativeAIWorkerConnector.getEngine()).createGrammar({
-            grammar,
-          });
+      const { model, draftModel } = await scheduler.exclusive(async () => {
+        const loaded = modelObj.model ?? await LlamacppGenerativeAIWorkerConnector.loadModel(modelId, modelObj);
+        residency.acquire(modelId);
+        if (!draftModelId) {
+          return { model: loaded };
         }
-      }
 
-      const textEmitter = new EventEmitter();
-
-      const runPrompt = (finalPrompt: string) => {
-        session!.prompt(finalPrompt, {
-          maxTokens: maxTokens ?? this.maxTokens,
-          temperature: temperature ?? this.temperature,
-          ...promptOptions,
-          onTextChunk: (text) => {
-            textEmitter.emit('text', text);
-          },
-        }).then(() => {
-          textEmitter.emit('text', undefined);
-        }).catch(e => {
-          console.error(e);
-          textEmitter.emit('text', undefined);
-        });
+        try {
+          const draftObj = LlamacppGenerativeAIWorkerConnector.getModel(draftModelId);
+          if (!draftObj || draftObj.outputType !== 'text' as GenerativeAIModelOutputType.Text) {
+            throw new LlamacppModelConfigError(`Draft model ${draftModelId} of model ${modelId} is not an initialized text model`);
+          }
+          const loadedDraft = draftObj.model ?? await LlamacppGenerativeAIWorkerConnector.loadModel(draftModelId, draftObj);
+          residency.acquire(draftModelId);
+          return { model: loaded, draftModel: loadedDraft };
+        } catch (e) {
+          residency.release(modelId);
+          throw e;
+        }
+      });
+      return {
+        model,
+        draftModel,
+        waitTime: Date.now() - queuedAt,
+        release: () => {
+          residency.release(modelId);
+          if (draftModel) {
+            residency.release(draftModelId!);
+          }
+          releaseSlot();
+        },
       };
+    } catch (e) {
+      releaseSlot();
+      throw e;
+    }
+  }
 
-      if (reasoning) {
-        let thinking = '';
-        session.prompt(`Analyze the following question and explain the steps needed to answer it without actually providing the final answer. Explain the reasoning process, key considerations, and possible strategies to find the answer.\nQuestion: ${prompt}`, {
-          maxTokens: maxTokens ?? this.maxTokens,
-          temperature: temperature ?? this.temperature,
-          onTextChunk: (text) => {
-            if (thinking === '') {
-              textEmitter.emit('text', `<think>${text}`);
-            } else {
-              textEmitter.emit('text', text);
-            }
-            thinking += text;
-          },
-        }).then(() => {
-          if (thinking.length < 500) {
-            session!.prompt(`Analyze the following question and explain the steps needed to answer it without actually providing the final answer. Explain the reasoning process, key considerations, and possible strategies to find the answer.\nInitial thoughts:${thinking}\nQuestion: ${prompt}`, {
-              maxTokens: maxTokens ?? this.maxTokens,
-              temperature: temperature ?? this.temperature,
-              onTextChunk: (text) => {
-                textEmitter.emit('text', text);
-                thinking += text;
-              },
-            }).then(() => {
-              textEmitter.emit('text', '</think>\n\n');
-              runPrompt(`<think>${thinking}</think>\n\n${prompt}`);
-            }).catch(e => {
-              console.error(e);
-              textEmitter.emit('text', undefined);
-            });
-          } else {
-            textEmitter.emit('text', '</think>\n\n');
-            runPrompt(`<think>${thinking}</think>\n\n${prompt}`);
+  /**
+   * Open the chat session of a job, reusing the session kept for its thread if there is one,
+   * or restoring the session saved to disk when sessions are persisted.
+   * @param model The model.
+   * @param parameters The job parameters.
+   * @param options The job options.
+   * @param draftModel The draft model predicting the tokens of a new session, if any.
+   * @returns A promise that resolves with the chat session, in use by the job until it is closed.
+   * @ignore
+   */
+  private async openSession(model: LlamaModel, parameters: ILlamacppGenerativeAIWorkerConnectorParameters, options: ILlamacppGenerativeAIWorkerJobOptions, draftModel?: LlamaModel): Promise<ILlamacppChatSession> {
+    const modelId = options.model.id;
+    const sessions = LlamacppGenerativeAIWorkerConnector.sessions;
+    const key = sessions.enabled && parameters.threadId ? parameters.threadId : undefined;
+
+    const modelObj = LlamacppGenerativeAIWorkerConnector.getModel(modelId)!;
+    const adapter = this.getAdapter(modelId, modelObj, parameters);
+
+    let chat = key ? await sessions.take(key, modelId, adapter?.key) : undefined;
+    await chat?.saving;
+    if (!chat) {
+      // The context is looked up or created and its sequence taken as one exclusive task, so concurrent jobs never create the same context twice.
+      const { context, sequence, draftSequence } = await LlamacppGenerativeAIWorkerConnector.scheduler.exclusive(async () => {
+        let context = LlamacppGenerativeAIWorkerConnector.getContext(modelId, adapter?.key);
+        if (context) {
+          clearTimeout(LlamacppGenerativeAIWorkerConnector.idleContexts.get(context));
+          LlamacppGenerativeAIWorkerConnector.idleContexts.delete(context);
+        }
+        if (context && context.sequencesLeft === 0) {
+          const evicted = sessions.evictOldest(context);
+          if (evicted) {
+            await LlamacppGenerativeAIWorkerConnector.disposeSession(evicted, true);
           }
-        }).catch(e => {
-          console.error(e);
-          textEmitter.emit('text', undefined);
-        });
-      } else {
-        runPrompt(prompt);
-      }
-
-      while (true) {
-        const text = await new Promise<string>((resolve) => textEmitter.once('text', resolve));
-
-        if (text === undefined) {
-          break;
         }
-
-        yield {
-          type: 'prompt' as GenerativeAIWorkerConnectorTypes,
-          output: text,
-          inputTokens: sequence.tokenMeter.usedInputTokens - startingInputTokens,
-          outputTokens: sequence.tokenMeter.usedOutputTokens - startingOutputTokens,
-        };
+        if (!context) {
+          context = await LlamacppGenerativeAIWorkerConnector.createModelContext(modelId, model, modelObj.loadOptions, (contextOptions) => model.createContext({
+            ...contextOptions,
+            sequences: modelObj.sequences,
+            lora: adapter ? {
+              adapters: [{
+                filePath: adapter.pathName,
+                scale: adapter.scale,
+              }],
+            } : undefined,
+          }));
+          LlamacppGenerativeAIWorkerConnector.setContext(modelId, context, adapter?.key);
+        }
+        console.log('Context size', context.contextSize);
+        const { tokenPredictor, draftSequence } = await this.createTokenPredictor(modelId, draftModel, modelObj.sequences);
+        return { context, sequence: context.getSequence({ tokenPredictor }), draftSequence };
+      });
+      const { LlamaChatSession } = await import('node-llama-cpp');
+      chat = {
+        key,
+        modelId,
+        adapterKey: adapter?.key,
+        context,
+        sequence,
+        draftModelId: draftSequence ? this.getDraftModelId(modelId, modelObj) : undefined,
+        draftSequence,
+        session: new LlamaChatSession({
+          contextSequence: sequence,
+          systemPrompt: parameters.instructions ?? this.instructions,
+        }),
+      };
+      if (key && this.sessionStore && await this.sessionStore.restore(chat, modelObj.pathName)) {
+        console.log('Restored session', key);
       }
+    }
+    return chat;
+  }
 
-      session.dispose();
-      sequence.dispose();
-      if (context.sequencesLeft === (options.sequences ?? 1)) {
-        await context.dispose();
-        LlamacppGenerativeAIWorkerConnector.setContext(options.model.id, undefined);
-      }
-    } catch (e) {
-      if (session && !session.disposed) {
-        session.dispose();
+  /**
+   * Create the token predictor of a new sequence, from the speculative decoding options of the model.
+   * A draft model predicts with a sequence of its own draft context, and prompt lookup is used when no draft model is set.
+   * @param modelId The model ID.
+   * @param draftModel The draft model, if any.
+   * @param sequences The number of sequences of the contexts of the model, which the draft context gets as well.
+   * @returns A promise that resolves with the token predictor and the draft sequence, both undefined if speculative decoding is disabled.
+   * @ignore
+   */
+  private async createTokenPredictor(modelId: string, draftModel: LlamaModel | undefined, sequences?: number): Promise<{ tokenPredictor?: TokenPredictor, draftSequence?: LlamaContextSequence }> {
+    const speculative = this.getSpeculativeOptions(modelId);
+    const { DraftSequenceTokenPredictor, InputLookupTokenPredictor } = await import('node-llama-cpp');
+
+    if (draftModel && speculative.draftModel) {
+      const draftModelId = speculative.draftModel;
+      let draftContext = LlamacppGenerativeAIWorkerConnector.getContext(draftModelId, DRAFT_CONTEXT_KEY);
+      if (!draftContext) {
+        draftContext = await LlamacppGenerativeAIWorkerConnector.createModelContext(draftModelId, draftModel, LlamacppGenerativeAIWorkerConnector.getModel(draftModelId)?.loadOptions, (contextOptions) => draftModel.createContext({
+          ...contextOptions,
+          sequences,
+        }));
+        LlamacppGenerativeAIWorkerConnector.setContext(draftModelId, draftContext, DRAFT_CONTEXT_KEY);
       }
-      if (sequence && !sequence.disposed) {
-        sequence.dispose();
+      if (draftContext.sequencesLeft > 0) {
+        const draftSequence = draftContext.getSequence();
+        return {
+          tokenPredictor: new DraftSequenceTokenPredictor(draftSequence, {
+            maxTokens: speculative.maxDraftTokens,
+            minConfidence: speculative.minConfidence,
+          }),
+          draftSequence,
+        };
       }
-      if (context && !context.disposed && context.sequencesLeft === (options.sequences ?? 1)) {
-        await context.dispose();
-        LlamacppGenerativeAIWorkerConnector.setContext(options.model.id, undefined);
+      console.log(`No free sequence in the context of draft model ${draftModelId}, decoding without it`);
+      return {};
+    }
+
+    if (!speculative.draftModel && speculative.promptLookup) {
+      return {
+        tokenPredictor: new InputLookupTokenPredictor({
+          predictionLength: speculative.maxDraftTokens !== undefined ? { max: speculative.maxDraftTokens } : undefined,
+        }),
+      };
+    }
+    return {};
+  }
+
+  /**
+   * Get the LoRA adapter selected by a job.
+   * Each adapter and scale pair gets its own context, shared by the jobs that select the same pair.
+   * @param modelId The model ID.
+   * @param modelObj The model.
+   * @param parameters The job parameters.
+   * @returns The path, scale and context key of the adapter, or undefined if the job uses the base model.
+   * @ignore
+   */
+  private getAdapter(modelId: string, modelObj: ILlamacppGenerativeAIWorkerModel, parameters: ILlamacppGenerativeAIWorkerConnectorParameters): { key: string, pathName: string, scale: number } | undefined {
+    if (!parameters.adapter) {
+      return undefined;
+    }
+    const adapter = modelObj.adapters?.[parameters.adapter];
+    if (!adapter) {
+      throw new Error(`Unknown adapter ${parameters.adapter} for model ${modelId}`);
+    }
+    const scale = parameters.adapterScale ?? adapter.scale ?? 1;
+    return {
+      key: `${parameters.adapter}@${scale}`,
+      pathName: adapter.pathName,
+      scale,
+    };
+  }
+
+  /**
+   * Close the chat session of a job, keeping it for the next job of its thread if the job completed.
+   * When sessions are persisted, the kept session is saved to disk in the background, and the next job of its thread waits for the save.
+   * A job that did not complete drops the session, and the session saved after the last completed job is restored instead.
+   * @param chat The chat session.
+   * @param completed Whether the job completed, so the session history is consistent.
+   * @returns A promise that resolves when the session is closed.
+   * @ignore
+   */
+  private async closeSession(chat: ILlamacppChatSession, completed: boolean): Promise<void> {
+    if (completed && chat.key && !chat.sequence.disposed) {
+      if (this.sessionStore) {
+        chat.saving = this.sessionStore.save(chat, LlamacppGenerativeAIWorkerConnector.getModel(chat.modelId)!.pathName).catch((e) => {
+          console.error(`Failed to save session ${chat.key}`, e);
+        });
       }
-      console.error(e);
-      throw e;
+      await LlamacppGenerativeAIWorkerConnector.sessions.retain(chat);
+      return;
     }
+    await LlamacppGenerativeAIWorkerConnector.disposeSession(chat);
   }
 
-  private setupSession(session: LlamaChatSession, parameters: GenerativeAIWorkerConnectorParameters): void {
+  /**
+   * Set the chat history of a session from the job history, shortened if it does not fit in the context.
+   * When the history extends the one of the session, the items of the session are kept as they are,
+   * so the tokens already evaluated in its context sequence are reused and only the new turns are evaluated.
+   * @param chat The chat session.
+   * @param parameters The job parameters.
+   * @param signal The abort signal of the job.
+   * @returns A promise that resolves with the number of history tokens dropped and summarized.
+   * @ignore
+   */
+  private async setupSession(chat: ILlamacppChatSession, parameters: ILlamacppGenerativeAIWorkerConnectorParameters, signal: AbortSignal): Promise<{ droppedTokens: number, summarizedTokens: number }> {
     const { instructions, history } = parameters;
 
     const chatHistory: ChatHistoryItem[] = [{
@@ -654,29 +1475,462 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
         }
       }
     }
-    session.setChatHistory(chatHistory);
+
+    const overflow = await this.fitHistory(chat, chatHistory, parameters, signal);
+
+    const { session } = chat;
+    const sessionHistory = session.getChatHistory();
+    const isExtension = sessionHistory.length <= chatHistory.length
+      && sessionHistory.every((item, index) => this.isSameHistoryItem(item, chatHistory[index]));
+    if (isExtension) {
+      session.setChatHistory([...sessionHistory, ...chatHistory.slice(sessionHistory.length)]);
+    } else {
+      session.setChatHistory(chatHistory);
+    }
+    return overflow;
+  }
+
+  /**
+   * Shorten a chat history that does not fit in the context with the overflow strategy of the job, keeping the system prompt.
+   * The tokens of the history are estimated from the text of its items, plus an allowance for the chat template.
+   * @param chat The chat session.
+   * @param chatHistory The chat history, shortened in place.
+   * @param parameters The job parameters.
+   * @param signal The abort signal of the job.
+   * @returns A promise that resolves with the number of history tokens dropped and summarized.
+   * @ignore
+   */
+  private async fitHistory(chat: ILlamacppChatSession, chatHistory: ChatHistoryItem[], parameters: ILlamacppGenerativeAIWorkerConnectorParameters, signal: AbortSignal): Promise<{ droppedTokens: number, summarizedTokens: number }> {
+    const model = chat.context.model;
+    const strategy = parameters.contextOverflow ?? this.options?.models?.[chat.modelId]?.contextOverflow ?? this.options?.contextOverflow ?? 'dropOldest';
+    const budget = chat.context.contextSize
+      - model.tokenize(parameters.prompt).length
+      - HISTORY_ITEM_OVERHEAD
+      - (parameters.maxTokens ?? this.maxTokens);
+
+    const sizes = chatHistory.map((item) => model.tokenize(this.getHistoryItemText(item)).length + HISTORY_ITEM_OVERHEAD);
+    let total = sizes.reduce((sum, size) => sum + size, 0);
+    let droppedTokens = 0;
+    if (total <= budget) {
+      return { droppedTokens, summarizedTokens: 0 };
+    }
+
+    if (strategy === 'truncate') {
+      const limit = this.getTruncationLimit(sizes.slice(1), budget - sizes[0]);
+      if (limit > HISTORY_ITEM_OVERHEAD) {
+        for (let i = 1; i < chatHistory.length; i++) {
+          if (sizes[i] <= limit) {
+            continue;
+          }
+          const item = chatHistory[i];
+          const tokens = model.tokenize(this.getHistoryItemText(item));
+          const text = `${model.detokenize(tokens.slice(0, limit - HISTORY_ITEM_OVERHEAD))}…`;
+          chatHistory[i] = item.type === 'model' ? { type: 'model', response: [text] } : { ...item, text } as ChatHistoryItem;
+          droppedTokens += sizes[i] - limit;
+          total -= sizes[i] - limit;
+          sizes[i] = limit;
+        }
+      }
+    }
+
+    const reserve = strategy === 'summarize' ? SUMMARY_MAX_TOKENS + HISTORY_ITEM_OVERHEAD : 0;
+    const dropped: ChatHistoryItem[] = [];
+    let droppedTurnTokens = 0;
+    while (chatHistory.length > 1 && total > budget - reserve) {
+      dropped.push(chatHistory.splice(1, 1)[0]);
+      const size = sizes.splice(1, 1)[0];
+      droppedTurnTokens += size;
+      total -= size;
+    }
+    if (dropped.length > 0) {
+      console.log(`History does not fit in the context, dropped ${dropped.length} items`);
+    }
+
+    if (strategy === 'summarize' && dropped.length > 0 && !signal.aborted) {
+      const summary = await this.summarizeHistory(chat, dropped, signal);
+      if (summary) {
+        chatHistory.splice(1, 0, {
+          type: 'system',
+          text: `Summary of the earlier conversation: ${summary}`,
+        });
+        return { droppedTokens, summarizedTokens: droppedTurnTokens };
+      }
+    }
+    return { droppedTokens: droppedTokens + droppedTurnTokens, summarizedTokens: 0 };
+  }
+
+  /**
+   * Get the largest message size, so that the messages truncated to it fit in the available tokens.
+   * @param sizes The sizes of the messages in tokens.
+   * @param available The available tokens.
+   * @returns The message size in tokens.
+   * @ignore
+   */
+  private getTruncationLimit(sizes: number[], available: number): number {
+    let low = 0;
+    let high = Math.max(0, ...sizes);
+    while (low < high) {
+      const limit = Math.ceil((low + high) / 2);
+      const total = sizes.reduce((sum, size) => sum + Math.min(size, limit), 0);
+      if (total <= available) {
+        low = limit;
+      } else {
+        high = limit - 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Summarize the turns dropped from a history with the model of the job.
+   * The transcript is truncated from its start if it does not fit in the context.
+   * @param chat The chat session, whose history is replaced.
+   * @param items The dropped turns.
+   * @param signal The abort signal of the job.
+   * @returns A promise that resolves with the summary.
+   * @ignore
+   */
+  private async summarizeHistory(chat: ILlamacppChatSession, items: ChatHistoryItem[], signal: AbortSignal): Promise<string> {
+    const { context, session } = chat;
+    const roles: { [type: string]: string } = { system: 'System', user: 'User', model: 'Assistant' };
+    const transcript = items.map((item) => `${roles[item.type]}: ${this.getHistoryItemText(item)}`).join('\n');
+
+    const available = context.contextSize
+      - SUMMARY_MAX_TOKENS
+      - context.model.tokenize(SUMMARY_INSTRUCTIONS).length
+      - 2 * HISTORY_ITEM_OVERHEAD;
+    const tokens = context.model.tokenize(transcript);
+
+    session.setChatHistory([{
+      type: 'system',
+      text: SUMMARY_INSTRUCTIONS,
+    }]);
+    const summary = await session.prompt(tokens.length > available ? context.model.detokenize(tokens.slice(tokens.length - available)) : transcript, {
+      maxTokens: SUMMARY_MAX_TOKENS,
+      temperature: this.temperature,
+      signal,
+      stopOnAbortSignal: true,
+      budgets: {
+        thoughtTokens: 0,
+      },
+    });
+    return summary.trim();
+  }
+
+  /**
+   * Get the text of a chat history item.
+   * @param item The chat history item.
+   * @returns The text, without the thoughts and function calls of model responses.
+   * @ignore
+   */
+  private getHistoryItemText(item: ChatHistoryItem): string {
+    if (item.type === 'model') {
+      return item.response.filter((part) => typeof part === 'string').join('');
+    }
+    return typeof item.text === 'string' ? item.text : '';
+  }
+
+  /**
+   * Check whether two chat history items hold the same message.
+   * Model responses are compared on their text only, since the job history does not hold thoughts or function calls.
+   * @param a The first item.
+   * @param b The second item.
+   * @returns True if the items hold the same message.
+   * @ignore
+   */
+  private isSameHistoryItem(a: ChatHistoryItem, b: ChatHistoryItem): boolean {
+    if (a.type === 'model' && b.type === 'model') {
+      return this.getHistoryItemText(a) === this.getHistoryItemText(b);
+    }
+    if (a.type === 'system' && b.type === 'system') {
+      return JSON.stringify(a.text) === JSON.stringify(b.text);
+    }
+    if (a.type === 'user' && b.type === 'user') {
+      return a.text === b.text;
+    }
+    return false;
+  }
+
+  /**
+   * Get the load options of a model, merged over the connector defaults, and validate them.
+   * @param modelId The model ID.
+   * @returns The load options.
+   * @ignore
+   */
+  private getLoadOptions(modelId: string): ILlamacppModelLoadOptions {
+    const loadOptions: ILlamacppModelLoadOptions = {
+      ...this.options?.load,
+      ...this.options?.models?.[modelId]?.load,
+    };
+
+    for (const key of ['contextSize', 'batchSize', 'threads'] as const) {
+      const value = loadOptions[key];
+      if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+        throw new LlamacppModelConfigError(`Invalid ${key} ${value} for model ${modelId}, must be a positive integer`);
+      }
+    }
+    const { contextSize, batchSize, gpuLayers } = loadOptions;
+    if (batchSize !== undefined && contextSize !== undefined && batchSize > contextSize) {
+      throw new LlamacppModelConfigError(`Batch size ${batchSize} of model ${modelId} exceeds its context size ${contextSize}`);
+    }
+    if (gpuLayers !== undefined && gpuLayers !== 'auto' && gpuLayers !== 'max' && (!Number.isInteger(gpuLayers) || gpuLayers < 0)) {
+      throw new LlamacppModelConfigError(`Invalid gpuLayers ${gpuLayers} for model ${modelId}, must be a non-negative integer, auto or max`);
+    }
+    for (const key of ['kvCacheKeyType', 'kvCacheValueType'] as const) {
+      const value = loadOptions[key];
+      if (value !== undefined && typeof GgmlType[value] !== 'number') {
+        throw new LlamacppModelConfigError(`Invalid ${key} ${value} for model ${modelId}, must be a GGML type such as F16 or Q8_0`);
+      }
+    }
+    return loadOptions;
+  }
+
+  /**
+   * Get the speculative decoding options of a model, merged over the connector defaults.
+   * @param modelId The model ID.
+   * @returns The speculative decoding options.
+   * @ignore
+   */
+  private getSpeculativeOptions(modelId: string): ILlamacppSpeculativeDecodingOptions {
+    return {
+      ...this.options?.speculative,
+      ...this.options?.models?.[modelId]?.speculative,
+    };
+  }
+
+  /**
+   * Get the ID of the draft model of a model.
+   * Only text models are drafted, and a draft model never drafts for itself.
+   * @param modelId The model ID.
+   * @param modelObj The model.
+   * @returns The draft model ID, if the model has one.
+   * @ignore
+   */
+  private getDraftModelId(modelId: string, modelObj: ILlamacppGenerativeAIWorkerModel): string | undefined {
+    const { draftModel } = this.getSpeculativeOptions(modelId);
+    return draftModel && draftModel !== modelId && modelObj.outputType === 'text' as GenerativeAIModelOutputType.Text ? draftModel : undefined;
+  }
+
+  /**
+   * Get the reasoning settings of a model.
+   * @param modelId The model ID.
+   * @returns The reasoning mode, prompt and budget.
+   * @ignore
+   */
+  private getReasoningSettings(modelId: string): { mode: LlamacppReasoningMode, prompt?: string, budget?: number } {
+    const modelOptions = this.options?.models?.[modelId];
+    return {
+      mode: modelOptions?.reasoningMode ?? this.options?.reasoningMode ?? 'prompted',
+      prompt: modelOptions?.reasoningPrompt ?? this.options?.reasoningPrompt,
+      budget: modelOptions?.reasoningBudget ?? this.options?.reasoningBudget,
+    };
+  }
+
+  /**
+   * Get the thought budget of a prompt, so that native reasoning only happens when the job enables it.
+   * @param settings The reasoning settings of the model.
+   * @param reasoning Whether the job enables reasoning.
+   * @returns The thought budget, or undefined to use the node-llama-cpp default.
+   * @ignore
+   */
+  private getThoughtBudget(settings: { mode: LlamacppReasoningMode, budget?: number }, reasoning?: boolean): number | undefined {
+    if (settings.mode === 'off' || (settings.mode === 'native' && !reasoning)) {
+      return 0;
+    }
+    return settings.mode === 'native' ? settings.budget : undefined;
+  }
+
+  /**
+   * Get the prompt of a `prompted` reasoning pass.
+   * @param template The reasoning prompt template, where `{prompt}` is replaced by the job prompt and `{thoughts}` by the previous thoughts.
+   * @param prompt The job prompt.
+   * @param thoughts The thoughts of the previous pass.
+   * @returns The reasoning prompt.
+   * @ignore
+   */
+  private getReasoningPrompt(template: string | undefined, prompt: string, thoughts: string): string {
+    return (template ?? DEFAULT_REASONING_PROMPT)
+      .replace('{thoughts}', thoughts ? `Initial thoughts:${thoughts}\n` : '')
+      .replace('{prompt}', prompt);
+  }
+
+  /**
+   * Get the sampling options of a prompt, the job sampling controls override the connector defaults.
+   * @param model The model.
+   * @param sampling The sampling controls of the job.
+   * @returns The node-llama-cpp prompt options.
+   * @ignore
+   */
+  private async getSamplingOptions(model: LlamaModel, sampling?: ILlamacppSamplingOptions): Promise<{
+    topK?: number,
+    topP?: number,
+    minP?: number,
+    seed?: number,
+    repeatPenalty?: LlamaChatSessionRepeatPenalty,
+    customStopTriggers?: string[],
+    tokenBias?: TokenBias,
+  }> {
+    const {
+      topK,
+      topP,
+      minP,
+      seed,
+      repeatPenalty,
+      frequencyPenalty,
+      presencePenalty,
+      penaltyLastTokens,
+      stopSequences,
+      tokenBias,
+    } = { ...this.options?.sampling, ...sampling };
+
+    let bias: TokenBias | undefined;
+    if (tokenBias && Object.keys(tokenBias).length > 0) {
+      const { TokenBias } = await import('node-llama-cpp');
+      bias = new TokenBias(model.tokenizer);
+      for (const [text, value] of Object.entries(tokenBias)) {
+        bias.set(text, value);
+      }
+    }
+
+    const hasPenalty = repeatPenalty !== undefined || frequencyPenalty !== undefined || presencePenalty !== undefined || penaltyLastTokens !== undefined;
+    return {
+      topK,
+      topP,
+      minP,
+      seed,
+      repeatPenalty: hasPenalty ? {
+        penalty: repeatPenalty,
+        frequencyPenalty,
+        presencePenalty,
+        lastTokens: penaltyLastTokens,
+      } : undefined,
+      customStopTriggers: stopSequences && stopSequences.length > 0 ? stopSequences : undefined,
+      tokenBias: bias,
+    };
+  }
+
+  /**
+   * Get the stop reason of a generation.
+   * @param stopReason The stop reason reported by node-llama-cpp.
+   * @returns The stop reason.
+   * @ignore
+   */
+  private getStopReason(stopReason: string): LlamacppStopReason {
+    switch (stopReason) {
+      case 'eogToken':
+        return 'eos';
+      case 'maxTokens':
+        return 'maxTokens';
+      case 'customStopTrigger':
+      case 'stopGenerationTrigger':
+        return 'stopSequence';
+      case 'functionCalls':
+        return 'functionCalls';
+      case 'abort':
+        return 'abort';
+      default:
+        return 'error';
+    }
   }
 
   /**
    * Get the vector for some content.
+   * Content longer than the embedding chunk size is split into overlapping chunks that are embedded separately and pooled.
    * @param embeddingContext The embedding context.
    * @param content The content.
-   * @returns A promise that resolves to the vector.
+   * @param index The index of the content in the job.
+   * @param settings The context size, pooling, preprocessing and input type of the embedding.
+   * @returns A promise that resolves to the vector and the chunk vectors.
    * @ignore
    */
-  private async getVector(embeddingContext: LlamaEmbeddingContext, content: string): Promise<number[]> {
-    const vector = (await embeddingContext.getEmbeddingFor(this.cleanText(content))).vector;
-    return this.normalizeVector(vector);
+  private async getVector(embeddingContext: LlamaEmbeddingContext, content: string, index: number, settings: {
+    contextSize: number,
+    pooling: LlamacppEmbeddingPooling,
+    preprocessing: ILlamacppEmbeddingPreprocessing,
+    inputType?: LlamacppEmbeddingInputType,
+  }): Promise<{ vector: number[], chunks: ILlamacppEmbeddingChunk[] }> {
+    const { contextSize, pooling, preprocessing, inputType } = settings;
+    const template = inputType === 'query' ? preprocessing.queryTemplate : inputType === 'passage' ? preprocessing.passageTemplate : undefined;
+    const text = this.cleanText(content, preprocessing);
+    const model = embeddingContext.model;
+    const tokens = model.tokenize(text);
+
+    // Leave room for the beginning and end tokens added by the embedding context, and for the template.
+    const templateLength = template ? model.tokenize(this.applyTemplate(template, '')).length : 0;
+    const chunkSize = Math.max(1, Math.min(this.options?.embeddingChunkSize ?? contextSize, contextSize) - 3 - templateLength);
+    const overlap = Math.min(this.options?.embeddingChunkOverlap ?? Math.floor(chunkSize / 10), chunkSize - 1);
+
+    if (tokens.length <= chunkSize) {
+      const vector = this.normalizeVector((await embeddingContext.getEmbeddingFor(this.applyTemplate(template, text))).vector);
+      return {
+        vector,
+        chunks: [{ index, start: 0, end: tokens.length, text, vector }],
+      };
+    }
+
+    const chunks: ILlamacppEmbeddingChunk[] = [];
+    for (let start = 0; start < tokens.length; start += chunkSize - overlap) {
+      const end = Math.min(start + chunkSize, tokens.length);
+      const chunkTokens = tokens.slice(start, end);
+      const chunkText = model.detokenize(chunkTokens);
+      const input = template ? this.applyTemplate(template, chunkText) : chunkTokens;
+      const vector = this.normalizeVector((await embeddingContext.getEmbeddingFor(input)).vector);
+      chunks.push({ index, start, end, text: chunkText, vector });
+      if (end === tokens.length || pooling === 'first') {
+        break;
+      }
+    }
+
+    if (pooling === 'first') {
+      return { vector: chunks[0].vector, chunks };
+    }
+
+    const pooled = new Array<number>(chunks[0].vector.length).fill(0);
+    for (const chunk of chunks) {
+      const weight = chunk.end - chunk.start;
+      chunk.vector.forEach((value, i) => {
+        pooled[i] += value * weight;
+      });
+    }
+    return { vector: this.normalizeVector(pooled), chunks };
   }
 
   /**
    * Clean the text.
    * @param text The text to clean.
+   * @param preprocessing The preprocessing to apply.
    * @returns The cleaned text.
    * @ignore
    */
-  private cleanText(text: string): string {
-    return text.trim().toLowerCase();
+  private cleanText(text: string, preprocessing: ILlamacppEmbeddingPreprocessing): string {
+    let cleaned = text;
+    if (preprocessing.normalization) {
+      cleaned = cleaned.normalize(preprocessing.normalization);
+    }
+    if (preprocessing.collapseWhitespace) {
+      cleaned = cleaned.replace(/\s+/g, ' ');
+    }
+    if (preprocessing.trim ?? true) {
+      cleaned = cleaned.trim();
+    }
+    if (preprocessing.lowercase ?? true) {
+      cleaned = cleaned.toLowerCase();
+    }
+    return cleaned;
+  }
+
+  /**
+   * Apply an embedding template to a text.
+   * @param template The template, where `{text}` is replaced by the text. A template without `{text}` is used as a prefix.
+   * @param text The text.
+   * @returns The templated text.
+   * @ignore
+   */
+  private applyTemplate(template: string | undefined, text: string): string {
+    if (!template) {
+      return text;
+    }
+    return template.includes('{text}') ? template.replace('{text}', text) : `${template}${text}`;
   }
 
   /**
@@ -695,35 +1949,94 @@ export class LlamacppGenerativeAIWorkerConnector implements IGenerativeAIWorkerC
 
   /**
    * Get the functions object.
+   * The arguments are validated against the parameter schema of the function before it is called,
+   * and a function that throws, times out or gets invalid arguments returns its error to the model instead of failing the job,
+   * and once the job exceeds its function-call rounds, functions are no longer called and the limit callback ends the prompt offering them.
    * @param functions The functions to process
+   * @param trace The call trace of the job, with the sequence used to tell the rounds apart and the callbacks announcing calls, results and the round limit.
    * @returns A promise that resolves to the functions object
    */
-  private async getFunctions(functions: Map<string, IPromptFunction>): Promise<{[key: string]: any}> {
+  private async getFunctions(functions: Map<string, IPromptFunction>, trace: {
+    sequence: LlamaContextSequence,
+    maxRounds: number,
+    calls: ILlamacppFunctionCall[],
+    onCall?: (call: ILlamacppFunctionCall) => void,
+    onResult?: (call: ILlamacppFunctionCall) => void,
+    onLimit?: () => void,
+  }): Promise<{[key: string]: any}> {
     const { defineChatSessionFunction } = await import('node-llama-cpp');
     let functionsObj: {[key: string]: any} = {}
 
+    let round = 0;
+    let roundInputTokens: number | undefined;
+    let pendingCalls = 0;
+    const callFunction = async (name: string, func: IPromptFunction, schema?: ILlamacppFunctionParameterSchema, params?: { [key: string]: any }): Promise<string> => {
+      // The calls of a round are all pending until their results are evaluated, which happens before the next round is generated.
+      const inputTokens = trace.sequence.tokenMeter.usedInputTokens;
+      if (pendingCalls === 0 && inputTokens !== roundInputTokens) {
+        round++;
+        roundInputTokens = inputTokens;
+      }
+
+      const call: ILlamacppFunctionCall = {
+        index: trace.calls.length,
+        round,
+        name,
+        params,
+      };
+      trace.calls.push(call);
+      trace.onCall?.({ ...call });
+
+      const startedAt = Date.now();
+      const validationErrors = schema ? LlamacppGenerativeAIWorkerConnector.functionSchemas.validate(schema, params ?? {}) : [];
+      if (round > trace.maxRounds) {
+        call.error = `Function call limit of ${trace.maxRounds} rounds reached, answer without calling functions`;
+        trace.onLimit?.();
+      } else if (validationErrors.length > 0) {
+        call.error = `Invalid parameters, fix them and call the function again: ${validationErrors.join('; ')}`;
+      } else {
+        const timeout = this.options?.functionTimeouts?.[name] ?? this.options?.functionTimeout ?? DEFAULT_FUNCTION_TIMEOUT;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        pendingCalls++;
+        try {
+          call.result = await Promise.race([
+            Promise.resolve().then(() => func.callback(params)),
+            new Promise<never>((_, reject) => {
+              timer = setTimeout(() => reject(new Error(`Function ${name} timed out after ${timeout} ms`)), timeout);
+            }),
+          ]);
+        } catch (e) {
+          console.error(`Function ${name} failed`, e);
+          call.error = e instanceof Error ? e.message : String(e);
+        } finally {
+          clearTimeout(timer);
+          pendingCalls--;
+        }
+      }
+      call.duration = Date.now() - startedAt;
+      trace.onResult?.({ ...call });
+
+      return call.error !== undefined ? `Error: ${call.error}` : call.result!;
+    };
+
     Array.from(functions?.entries()).map(([name, func]) => {
       if (!functionsObj) {
         return;
       }
       if (func.params) {
+        const schema = LlamacppGenerativeAIWorkerConnector.functionSchemas.normalize(func.params);
         functionsObj[name] = defineChatSessionFunction({
           description: func.description,
-          params: {
-            type: 'object',
-            properties: {
-              ...func.params,
-            }
-          },
+          params: LlamacppGenerativeAIWorkerConnector.functionSchemas.toGbnf(schema) as GbnfJsonObjectSchema,
           handler(params) {
-            return func.callback(params);
+            return callFunction(name, func, schema, LlamacppGenerativeAIWorkerConnector.functionSchemas.removeOmitted(schema, params) as { [key: string]: any });
           },
         });
       } else {
         functionsObj[name] = defineChatSessionFunction({
           description: func.description,
           handler() {
-            return func.callback();
+            return callFunction(name, func);
           }
         });
       }
@@ -0,0 +1,61 @@
+import type { IGenerativeAIPromptWorkerConnectorParameters } from '@crewdle/web-sdk-types';
+
+import { LlamacppEmbeddingPooling } from './LlamacppEmbeddingPooling';
+import { LlamacppEmbeddingInputType } from './LlamacppEmbeddingInputType';
+import { ILlamacppSamplingOptions } from './LlamacppSamplingOptions';
+import { LlamacppContextOverflowStrategy } from './LlamacppContextOverflowStrategy';
+
+/**
+ * The job parameters for the LlamacppGenerativeAIWorker.
+ */
+export interface ILlamacppGenerativeAIWorkerConnectorParameters extends IGenerativeAIPromptWorkerConnectorParameters {
+  /**
+   * The sampling controls of the job, each one overrides the connector default.
+   */
+  sampling?: ILlamacppSamplingOptions;
+
+  /**
+   * The number of times a structured output truncated by the token budget is generated again, overrides the connector default.
+   */
+  structuredOutputRetries?: number;
+
+  /**
+   * The maximum number of function-call rounds of the job, overrides the connector default.
+   */
+  maxFunctionCallRounds?: number;
+
+  /**
+   * How the history is shortened if it does not fit in the context, overrides the model and connector defaults.
+   */
+  contextOverflow?: LlamacppContextOverflowStrategy;
+
+  /**
+   * The ID of the LoRA adapter of the model applied to the job.
+   */
+  adapter?: string;
+
+  /**
+   * The scale of the LoRA adapter, overrides the default scale of the adapter.
+   */
+  adapterScale?: number;
+
+  /**
+   * The texts to embed in a single job, for vector models. Takes precedence over the prompt.
+   */
+  prompts?: string[];
+
+  /**
+   * The documents scored against the prompt, for ranking models.
+   */
+  documents?: string[];
+
+  /**
+   * How the vectors of long inputs are combined, overrides the connector default.
+   */
+  pooling?: LlamacppEmbeddingPooling;
+
+  /**
+   * Whether the texts are queries or passages, selects the embedding template of the model.
+   */
+  inputType?: LlamacppEmbeddingInputType;
+}
@@ -0,0 +1,107 @@
+import type { IGenerativeAIWorkerConnectorPromptResult } from '@crewdle/web-sdk-types';
+
+import { ILlamacppEmbeddingChunk } from './LlamacppEmbeddingChunk';
+import { LlamacppStopReason } from './LlamacppStopReason';
+import { ILlamacppFunctionCall } from './LlamacppFunctionCall';
+import { ILlamacppRankedDocument } from './LlamacppRankedDocument';
+import { ILlamacppSpeculativeDecodingStats } from './LlamacppSpeculativeDecodingStats';
+
+/**
+ * The job result of the LlamacppGenerativeAIWorker.
+ */
+export interface ILlamacppGenerativeAIWorkerConnectorResult extends IGenerativeAIWorkerConnectorPromptResult {
+  /**
+   * Why the generation of the answer stopped.
+   */
+  stopReason?: LlamacppStopReason;
+
+  /**
+   * The stop sequence that ended the generation, when the stop reason is `stopSequence`.
+   */
+  stopSequence?: string;
+
+  /**
+   * Whether the chunk is the summary chunk that ends a stream, with an empty output.
+   */
+  final?: boolean;
+
+  /**
+   * The time in milliseconds from the start of the generation to the first generated chunk.
+   */
+  timeToFirstToken?: number;
+
+  /**
+   * The output tokens generated per second after the first chunk.
+   */
+  tokensPerSecond?: number;
+
+  /**
+   * The thoughts of the model, when reasoning is enabled.
+   */
+  thought?: string;
+
+  /**
+   * The output tokens spent on reasoning, included in the output tokens.
+   */
+  reasoningTokens?: number;
+
+  /**
+   * The history tokens dropped or truncated away because the history did not fit in the context.
+   */
+  droppedHistoryTokens?: number;
+
+  /**
+   * The history tokens replaced by a summary because the history did not fit in the context.
+   */
+  summarizedHistoryTokens?: number;
+
+  /**
+   * The time in milliseconds the job waited for a context sequence and for its model to load.
+   */
+  queueWaitTime?: number;
+
+  /**
+   * The functions called by the model, in call order.
+   */
+  functionCalls?: ILlamacppFunctionCall[];
+
+  /**
+   * A function the model is calling, on stream chunks announcing the call.
+   */
+  functionCall?: ILlamacppFunctionCall;
+
+  /**
+   * A function call that finished with its result or error, on stream chunks announcing the result.
+   */
+  functionResult?: ILlamacppFunctionCall;
+
+  /**
+   * The answer parsed as JSON, when a JSON grammar or schema is used and the answer is valid.
+   */
+  parsed?: unknown;
+
+  /**
+   * Why the answer could not be parsed or did not match the schema.
+   */
+  parseError?: string;
+
+  /**
+   * The normalized vectors of a batch embedding job, in the order of the prompts.
+   */
+  vectors?: number[][];
+
+  /**
+   * The vectors of every chunk of the inputs, when the `all` pooling is used.
+   */
+  chunks?: ILlamacppEmbeddingChunk[];
+
+  /**
+   * The documents of a ranking job, from the most to the least relevant. The output holds their scores in the job order.
+   */
+  rankings?: ILlamacppRankedDocument[];
+
+  /**
+   * The statistics of the speculative decoding of the job, when it is enabled.
+   */
+  speculativeDecoding?: ILlamacppSpeculativeDecodingStats;
+}
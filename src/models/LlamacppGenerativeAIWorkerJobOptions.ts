@@ -0,0 +1,23 @@
+import type { IGenerativeAIWorkerOptions } from '@crewdle/web-sdk-types';
+
+import { LlamacppJobPriority } from './LlamacppJobPriority';
+
+/**
+ * The job options for the LlamacppGenerativeAIWorker.
+ */
+export interface ILlamacppGenerativeAIWorkerJobOptions extends IGenerativeAIWorkerOptions {
+  /**
+   * The job ID, used to cancel the job.
+   */
+  jobId?: string;
+
+  /**
+   * A signal to abort the job. The output generated so far is returned.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * The priority of the job while it waits for a context sequence. Defaults to `interactive` for streams, `batch` for embeddings and `normal` otherwise.
+   */
+  priority?: LlamacppJobPriority;
+}
@@ -1,7 +1,9 @@
-import { GenerativeAIModelOutputType } from '@crewdle/web-sdk-types';
-
 import type { LlamaModel } from 'node-llama-cpp';
 
+import { ILlamacppModelLoadOptions } from './LlamacppModelLoadOptions';
+import { LlamacppModelOutputType } from './LlamacppModelOutputType';
+import { ILlamacppModelMetadata } from './LlamacppModelMetadata';
+
 /**
  * The model interface.
  */
@@ -14,13 +16,33 @@ export interface ILlamacppGenerativeAIWorkerModel {
   /**
    * The output type of the model.
    */
-  outputType: GenerativeAIModelOutputType;
+  outputType: LlamacppModelOutputType;
+
+  /**
+   * The metadata of the model, read from its GGUF file.
+   */
+  metadata?: ILlamacppModelMetadata;
+
+  /**
+   * The paths and default scales of the LoRA adapters of the model, keyed by adapter ID.
+   */
+  adapters?: { [adapterId: string]: { pathName: string, scale?: number } };
 
   /**
    * The model.
    */
   model?: LlamaModel;
 
+  /**
+   * The options used to load the model and create its contexts.
+   */
+  loadOptions?: ILlamacppModelLoadOptions;
+
+  /**
+   * The number of sequences of each context of the model, set by the first job of the model.
+   */
+  sequences?: number;
+
   /**
    * The workflows that use the model.
    */
@@ -0,0 +1,45 @@
+import { ILlamacppEmbeddingPreprocessing } from './LlamacppEmbeddingPreprocessing';
+import { LlamacppReasoningMode } from './LlamacppReasoningMode';
+import { LlamacppContextOverflowStrategy } from './LlamacppContextOverflowStrategy';
+import { ILlamacppModelLoadOptions } from './LlamacppModelLoadOptions';
+import { ILlamacppSpeculativeDecodingOptions } from './LlamacppSpeculativeDecodingOptions';
+
+/**
+ * The options for a single model of the LlamacppGenerativeAIWorker.
+ */
+export interface ILlamacppGenerativeAIWorkerModelOptions {
+  /**
+   * The preprocessing applied to the text before it is embedded, overrides the connector default.
+   */
+  embeddingPreprocessing?: ILlamacppEmbeddingPreprocessing;
+
+  /**
+   * How the model reasons when a job enables reasoning, overrides the connector default.
+   */
+  reasoningMode?: LlamacppReasoningMode;
+
+  /**
+   * The prompt of the `prompted` reasoning mode, overrides the connector default.
+   */
+  reasoningPrompt?: string;
+
+  /**
+   * The maximum number of tokens spent on reasoning, overrides the connector default.
+   */
+  reasoningBudget?: number;
+
+  /**
+   * How a history that does not fit in the context is shortened, overrides the connector default.
+   */
+  contextOverflow?: LlamacppContextOverflowStrategy;
+
+  /**
+   * The options used to load the model and create its contexts, each overrides the connector default.
+   */
+  load?: ILlamacppModelLoadOptions;
+
+  /**
+   * The speculative decoding of the model, each option overrides the connector default.
+   */
+  speculative?: ILlamacppSpeculativeDecodingOptions;
+}
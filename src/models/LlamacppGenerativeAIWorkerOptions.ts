@@ -1,3 +1,13 @@
+import { ILlamacppModelDownloadProgress } from './LlamacppModelDownloadProgress';
+import { LlamacppEmbeddingPooling } from './LlamacppEmbeddingPooling';
+import { ILlamacppEmbeddingPreprocessing } from './LlamacppEmbeddingPreprocessing';
+import { ILlamacppGenerativeAIWorkerModelOptions } from './LlamacppGenerativeAIWorkerModelOptions';
+import { LlamacppReasoningMode } from './LlamacppReasoningMode';
+import { ILlamacppSamplingOptions } from './LlamacppSamplingOptions';
+import { LlamacppContextOverflowStrategy } from './LlamacppContextOverflowStrategy';
+import { ILlamacppModelLoadOptions } from './LlamacppModelLoadOptions';
+import { ILlamacppSpeculativeDecodingOptions } from './LlamacppSpeculativeDecodingOptions';
+
 /**
  * The options for the LlamacppGenerativeAIWorker.
  */
@@ -21,4 +31,136 @@ export interface ILlamacppGenerativeAIWorkerOptions {
    * The temperature.
    */
   temperature?: number;
+
+  /**
+   * The default sampling controls of the jobs.
+   */
+  sampling?: ILlamacppSamplingOptions;
+
+  /**
+   * How models reason when a job enables reasoning. Defaults to `prompted`.
+   */
+  reasoningMode?: LlamacppReasoningMode;
+
+  /**
+   * The prompt of the `prompted` reasoning mode, where `{prompt}` is replaced by the job prompt and `{thoughts}` by the thoughts of the previous pass.
+   */
+  reasoningPrompt?: string;
+
+  /**
+   * The maximum number of tokens spent on reasoning. Defaults to the maximum number of tokens for `prompted` reasoning, and to the node-llama-cpp thought budget for `native` reasoning.
+   */
+  reasoningBudget?: number;
+
+  /**
+   * The number of times a structured output truncated by the token budget is generated again with twice the budget. Defaults to 0.
+   */
+  structuredOutputRetries?: number;
+
+  /**
+   * The maximum number of tokens embedded at once, longer inputs are split into chunks. Defaults to, and is capped at, the context size of the embedding context.
+   */
+  embeddingChunkSize?: number;
+
+  /**
+   * The number of tokens shared by consecutive chunks. Defaults to a tenth of the chunk size.
+   */
+  embeddingChunkOverlap?: number;
+
+  /**
+   * How the chunk vectors are combined. Defaults to `mean`.
+   */
+  embeddingPooling?: LlamacppEmbeddingPooling;
+
+  /**
+   * The preprocessing applied to the text before it is embedded.
+   */
+  embeddingPreprocessing?: ILlamacppEmbeddingPreprocessing;
+
+  /**
+   * The options of specific models, keyed by model ID.
+   */
+  models?: { [modelId: string]: ILlamacppGenerativeAIWorkerModelOptions };
+
+  /**
+   * The default options used to load the models and create their contexts.
+   */
+  load?: ILlamacppModelLoadOptions;
+
+  /**
+   * The default speculative decoding of the text models. Disabled by default.
+   */
+  speculative?: ILlamacppSpeculativeDecodingOptions;
+
+  /**
+   * The time in milliseconds after which a function called by the model fails. Defaults to 30 seconds.
+   */
+  functionTimeout?: number;
+
+  /**
+   * The timeouts of specific functions in milliseconds, keyed by function name. Overrides the default function timeout.
+   */
+  functionTimeouts?: { [name: string]: number };
+
+  /**
+   * The maximum number of function-call rounds of a job. Defaults to 8.
+   */
+  maxFunctionCallRounds?: number;
+
+  /**
+   * How a history that does not fit in the context is shortened. Defaults to `dropOldest`.
+   */
+  contextOverflow?: LlamacppContextOverflowStrategy;
+
+  /**
+   * The maximum number of chat sessions kept between jobs, keyed by thread ID, so the next turn reuses their evaluated tokens. Defaults to 8, set to 0 to disable.
+   */
+  maxSessions?: number;
+
+  /**
+   * The time in milliseconds after which a chat session kept between jobs is disposed if unused. Defaults to 5 minutes.
+   */
+  sessionIdleTimeout?: number;
+
+  /**
+   * The time in milliseconds after which the context of a LoRA adapter is disposed once none of its sequences are in use. Defaults to 5 minutes.
+   */
+  adapterContextIdleTimeout?: number;
+
+  /**
+   * Save the chat sessions kept between jobs to the `sessions` folder of the base folder, so they are restored after a restart.
+   * A session is saved in the background after each completed job. Defaults to false.
+   */
+  persistSessions?: boolean;
+
+  /**
+   * The RAM budget for resident models in bytes, defaults to the total system memory.
+   */
+  ramBudget?: number;
+
+  /**
+   * The VRAM budget for resident models in bytes, defaults to the total VRAM.
+   */
+  vramBudget?: number;
+
+  /**
+   * The maximum number of jobs running at once across all models, the others wait by priority then arrival whatever their model. Defaults to no limit,
+   * in which case priorities only order the jobs waiting for the same model.
+   */
+  maxConcurrentJobs?: number;
+
+  /**
+   * The maximum size in bytes of the model files downloaded to the base folder, unused files are evicted to stay within it.
+   */
+  modelQuota?: number;
+
+  /**
+   * The time in milliseconds after which an unused model file is evicted from the base folder. Defaults to never.
+   */
+  modelRetention?: number;
+
+  /**
+   * Called with the progress of model downloads.
+   */
+  onDownloadProgress?: (progress: ILlamacppModelDownloadProgress) => void;
 }
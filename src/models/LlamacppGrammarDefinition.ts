@@ -0,0 +1,21 @@
+import type { GbnfJsonSchema } from 'node-llama-cpp';
+
+/**
+ * A grammar that constrains the output of a prompt.
+ * - `builtin`: a grammar bundled with node-llama-cpp (`json`, `json_arr`, `list`, ...) or `if_else`.
+ * - `gbnf`: a raw GBNF grammar.
+ * - `jsonSchema`: a JSON schema the output must match.
+ *
+ * The `grammar` job parameter also accepts a built-in name or a raw GBNF grammar as a string, and a JSON schema as a plain object.
+ */
+export type LlamacppGrammarDefinition = {
+  kind: 'builtin';
+  name: string;
+} | {
+  kind: 'gbnf';
+  grammar: string;
+  rootRuleName?: string;
+} | {
+  kind: 'jsonSchema';
+  schema: GbnfJsonSchema;
+};
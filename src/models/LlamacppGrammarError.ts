@@ -0,0 +1,9 @@
+/**
+ * An error raised when a grammar cannot be resolved or compiled.
+ */
+export class LlamacppGrammarError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlamacppGrammarError';
+  }
+}
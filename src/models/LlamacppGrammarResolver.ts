@@ -0,0 +1,253 @@
+import { createHash } from 'crypto';
+
+import type { GbnfJsonSchema, Llama, LlamaGrammar, LlamaJsonSchemaGrammar } from 'node-llama-cpp';
+
+import { LlamacppGrammarDefinition } from './LlamacppGrammarDefinition';
+import { LlamacppGrammarError } from './LlamacppGrammarError.js';
+
+/**
+ * The grammars bundled with node-llama-cpp.
+ * @ignore
+ */
+const BUNDLED_GRAMMARS = ['json', 'json_arr', 'english', 'list', 'c', 'arithmetic', 'japanese', 'chess'] as const;
+
+/**
+ * The JSON schema of the `if_else` built-in grammar.
+ * @ignore
+ */
+const IF_ELSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    'condition_result': {
+      type: 'boolean',
+    },
+  },
+  required: ['condition_result'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * The JSON schema types supported by the grammar generator.
+ * @ignore
+ */
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'null', 'object', 'array'];
+
+/**
+ * Resolves the `grammar` job parameter into a compiled grammar.
+ * Compiled grammars are cached by a hash of their definition.
+ */
+export class LlamacppGrammarResolver {
+  /**
+   * The compiled grammars, keyed by the hash of their definition.
+   * @ignore
+   */
+  private cache: Map<string, LlamaGrammar> = new Map();
+
+  /**
+   * The compiled built-in grammars that produce JSON without a schema.
+   * @ignore
+   */
+  private jsonGrammars: WeakSet<LlamaGrammar> = new WeakSet();
+
+  /**
+   * The constructor.
+   * @param maxCacheSize The maximum number of compiled grammars kept in the cache.
+   */
+  constructor(
+    private maxCacheSize = 100,
+  ) {}
+
+  /**
+   * Resolve a grammar.
+   * @param engine The Llama engine.
+   * @param grammar The grammar job parameter: a built-in name, a raw GBNF grammar, a JSON schema or a {@link LlamacppGrammarDefinition}.
+   * @returns A promise that resolves with the compiled grammar, or undefined when no grammar is requested.
+   * @throws {LlamacppGrammarError} If the grammar is unknown or invalid.
+   */
+  async resolve(engine: Llama, grammar: unknown): Promise<LlamaGrammar | undefined> {
+    if (grammar === undefined || grammar === null || grammar === '' || grammar === 'default') {
+      return undefined;
+    }
+
+    const definition = this.getDefinition(grammar);
+    const hash = createHash('sha256').update(JSON.stringify(definition)).digest('hex');
+
+    const cached = this.cache.get(hash);
+    if (cached) {
+      this.cache.delete(hash);
+      this.cache.set(hash, cached);
+      return cached;
+    }
+
+    const compiled = await this.compile(engine, definition);
+    this.cache.set(hash, compiled);
+    if (this.cache.size > this.maxCacheSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return compiled;
+  }
+
+  /**
+   * Parse the output generated with a grammar.
+   * Output generated with a JSON schema is validated against the schema.
+   * @param grammar The compiled grammar.
+   * @param output The generated output.
+   * @returns The parsed value, or undefined if the grammar does not produce JSON.
+   * @throws If the output is not valid JSON or does not match the schema.
+   */
+  parse(grammar: LlamaGrammar, output: string): unknown {
+    if ('parse' in grammar && typeof grammar.parse === 'function') {
+      return (grammar as LlamaJsonSchemaGrammar<any>).parse(output);
+    }
+    if (this.jsonGrammars.has(grammar)) {
+      return JSON.parse(output);
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the definition of a grammar job parameter.
+   * @param grammar The grammar job parameter.
+   * @returns The grammar definition.
+   * @ignore
+   */
+  private getDefinition(grammar: unknown): LlamacppGrammarDefinition {
+    if (typeof grammar === 'string') {
+      // A raw GBNF grammar was passed as a plain string before grammar definitions existed.
+      if (grammar.includes('::=')) {
+        return {
+          kind: 'gbnf',
+          grammar,
+        };
+      }
+      return {
+        kind: 'builtin',
+        name: grammar,
+      };
+    }
+
+    if (typeof grammar !== 'object' || Array.isArray(grammar)) {
+      throw new LlamacppGrammarError(`Invalid grammar: expected a built-in name, a JSON schema or a grammar definition, got ${Array.isArray(grammar) ? 'array' : typeof grammar}`);
+    }
+
+    const definition = grammar as Partial<LlamacppGrammarDefinition>;
+    switch (definition.kind) {
+      case 'builtin':
+      case 'gbnf':
+      case 'jsonSchema':
+        return definition as LlamacppGrammarDefinition;
+      case undefined:
+        return {
+          kind: 'jsonSchema',
+          schema: grammar as GbnfJsonSchema,
+        };
+      default:
+        throw new LlamacppGrammarError(`Invalid grammar: unknown kind ${(definition as { kind: string }).kind}`);
+    }
+  }
+
+  /**
+   * Compile a grammar definition.
+   * @param engine The Llama engine.
+   * @param definition The grammar definition.
+   * @returns A promise that resolves with the compiled grammar.
+   * @ignore
+   */
+  private async compile(engine: Llama, definition: LlamacppGrammarDefinition): Promise<LlamaGrammar> {
+    switch (definition.kind) {
+      case 'builtin':
+        if (definition.name === 'if_else') {
+          return engine.createGrammarForJsonSchema(IF_ELSE_SCHEMA);
+        }
+        if (!(BUNDLED_GRAMMARS as readonly string[]).includes(definition.name)) {
+          throw new LlamacppGrammarError(`Unknown built-in grammar ${definition.name}, expected one of ${[...BUNDLED_GRAMMARS, 'if_else'].join(', ')}`);
+        }
+        const bundled = await engine.getGrammarFor(definition.name as typeof BUNDLED_GRAMMARS[number]);
+        if (definition.name === 'json' || definition.name === 'json_arr') {
+          this.jsonGrammars.add(bundled);
+        }
+        return bundled;
+      case 'gbnf':
+        if (typeof definition.grammar !== 'string' || !definition.grammar.includes('::=')) {
+          throw new LlamacppGrammarError('Invalid GBNF grammar: expected at least one rule');
+        }
+        try {
+          return await engine.createGrammar({
+            grammar: definition.grammar,
+            rootRuleName: definition.rootRuleName,
+          });
+        } catch (e) {
+          throw new LlamacppGrammarError(`Invalid GBNF grammar: ${(e as Error).message}`);
+        }
+      case 'jsonSchema':
+        this.validateSchema(definition.schema, '$');
+        try {
+          return await engine.createGrammarForJsonSchema<GbnfJsonSchema>(definition.schema);
+        } catch (e) {
+          throw new LlamacppGrammarError(`Invalid JSON schema: ${(e as Error).message}`);
+        }
+    }
+  }
+
+  /**
+   * Validate a JSON schema against the subset supported by the grammar generator.
+   * @param schema The schema.
+   * @param path The path of the schema in the root schema, for error messages.
+   * @throws {LlamacppGrammarError} If the schema is malformed.
+   * @ignore
+   */
+  private validateSchema(schema: unknown, path: string): void {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      throw new LlamacppGrammarError(`Invalid JSON schema at ${path}: expected an object`);
+    }
+
+    const node = schema as { [key: string]: unknown };
+    if ('const' in node || '$ref' in node) {
+      return;
+    }
+    if ('enum' in node) {
+      if (!Array.isArray(node.enum) || node.enum.length === 0) {
+        throw new LlamacppGrammarError(`Invalid JSON schema at ${path}: enum must be a non-empty array`);
+      }
+      return;
+    }
+    if ('oneOf' in node || 'anyOf' in node) {
+      const options = node.oneOf ?? node.anyOf;
+      if (!Array.isArray(options) || options.length === 0) {
+        throw new LlamacppGrammarError(`Invalid JSON schema at ${path}: oneOf must be a non-empty array`);
+      }
+      options.forEach((option, i) => this.validateSchema(option, `${path}.oneOf[${i}]`));
+      return;
+    }
+
+    const types = Array.isArray(node.type) ? node.type : [node.type];
+    for (const type of types) {
+      if (typeof type !== 'string' || !SCHEMA_TYPES.includes(type)) {
+        throw new LlamacppGrammarError(`Invalid JSON schema at ${path}: unsupported type ${JSON.stringify(type)}`);
+      }
+    }
+
+    if (types.includes('object') && node.properties !== undefined) {
+      if (typeof node.properties !== 'object' || node.properties === null || Array.isArray(node.properties)) {
+        throw new LlamacppGrammarError(`Invalid JSON schema at ${path}: properties must be an object`);
+      }
+      for (const [key, property] of Object.entries(node.properties)) {
+        this.validateSchema(property, `${path}.properties.${key}`);
+      }
+      if (node.required !== undefined) {
+        if (!Array.isArray(node.required)) {
+          throw new LlamacppGrammarError(`Invalid JSON schema at ${path}: required must be an array`);
+        }
+        for (const key of node.required) {
+          if (!(key in node.properties)) {
+            throw new LlamacppGrammarError(`Invalid JSON schema at ${path}: required property ${key} is not defined in properties`);
+          }
+        }
+      }
+    }
+
+    if (types.includes('array') && node.items !== undefined) {
+      this.validateSchema(node.items, `${path}.items`);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * The priority of a job waiting for a context sequence.
+ * - `interactive`: streamed jobs a user is waiting on.
+ * - `normal`: other text jobs.
+ * - `batch`: embedding jobs and background work.
+ */
+export type LlamacppJobPriority = 'interactive' | 'normal' | 'batch';
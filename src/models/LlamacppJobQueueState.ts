@@ -0,0 +1,24 @@
+/**
+ * The state of the job queue of a model.
+ */
+export interface ILlamacppJobQueueState {
+  /**
+   * The number of jobs waiting for a context sequence.
+   */
+  queued: number;
+
+  /**
+   * The number of jobs running.
+   */
+  active: number;
+
+  /**
+   * The time in milliseconds the oldest waiting job has been waiting.
+   */
+  oldestWaitTime: number;
+
+  /**
+   * The average time in milliseconds the started jobs waited.
+   */
+  averageWaitTime: number;
+}
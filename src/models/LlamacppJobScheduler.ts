@@ -0,0 +1,204 @@
+import { LlamacppJobPriority } from './LlamacppJobPriority';
+import { ILlamacppJobQueueState } from './LlamacppJobQueueState';
+
+/**
+ * The order of the priorities, lower runs first.
+ * @ignore
+ */
+const PRIORITY_ORDER: { [priority in LlamacppJobPriority]: number } = {
+  interactive: 0,
+  normal: 1,
+  batch: 2,
+};
+
+/**
+ * A job waiting in a queue.
+ * @ignore
+ */
+interface ILlamacppQueuedJob {
+  priority: number;
+  queuedAt: number;
+  start: () => void;
+}
+
+/**
+ * The queue of a model.
+ * @ignore
+ */
+interface ILlamacppJobQueue {
+  slots: number;
+  active: number;
+  waiting: ILlamacppQueuedJob[];
+  started: number;
+  totalWaitTime: number;
+}
+
+/**
+ * Schedules the jobs of the models.
+ * Each model runs at most as many jobs as its context has sequences, and all models together at most the concurrency limit.
+ * The other jobs wait by priority, then in order of arrival, across the queues of all models.
+ * Model loads and evictions run one at a time, so a job never sees a model disposed under it.
+ */
+export class LlamacppJobScheduler {
+  /**
+   * The queues, keyed by model ID.
+   * @ignore
+   */
+  private queues: Map<string, ILlamacppJobQueue> = new Map();
+
+  /**
+   * The maximum number of jobs running at once across all models.
+   * @ignore
+   */
+  private maxActive = Infinity;
+
+  /**
+   * The number of jobs running across all models.
+   * @ignore
+   */
+  private active = 0;
+
+  /**
+   * The tail of the chain of exclusive tasks.
+   * @ignore
+   */
+  private exclusiveTail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Set the concurrency limit.
+   * @param maxActive The maximum number of jobs running at once across all models.
+   */
+  setLimit(maxActive?: number): void {
+    if (maxActive !== undefined) {
+      this.maxActive = Math.max(1, maxActive);
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Wait for a free slot of a model.
+   * @param modelId The model ID.
+   * @param slots The number of jobs the model can run at once.
+   * @param priority The priority of the job.
+   * @param signal A signal that removes the job from the queue.
+   * @returns A promise that resolves with the function releasing the slot, or rejects if the job is aborted while waiting.
+   */
+  acquire(modelId: string, slots: number, priority: LlamacppJobPriority, signal?: AbortSignal): Promise<() => void> {
+    let queue = this.queues.get(modelId);
+    if (!queue) {
+      queue = {
+        slots,
+        active: 0,
+        waiting: [],
+        started: 0,
+        totalWaitTime: 0,
+      };
+      this.queues.set(modelId, queue);
+    }
+    queue.slots = Math.max(1, slots);
+    const modelQueue = queue;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Job cancelled'));
+        return;
+      }
+
+      const onAbort = () => {
+        const index = modelQueue.waiting.indexOf(job);
+        if (index !== -1) {
+          modelQueue.waiting.splice(index, 1);
+          reject(new Error('Job cancelled'));
+        }
+      };
+
+      const job: ILlamacppQueuedJob = {
+        priority: PRIORITY_ORDER[priority],
+        queuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          modelQueue.started++;
+          modelQueue.totalWaitTime += Date.now() - job.queuedAt;
+          let released = false;
+          resolve(() => {
+            if (released) {
+              return;
+            }
+            released = true;
+            modelQueue.active--;
+            this.active--;
+            this.dispatch();
+          });
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      const index = modelQueue.waiting.findIndex((waiting) => waiting.priority > job.priority);
+      modelQueue.waiting.splice(index === -1 ? modelQueue.waiting.length : index, 0, job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Run a task once every previously scheduled exclusive task is done.
+   * @param task The task.
+   * @returns A promise that resolves with the result of the task.
+   */
+  exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.exclusiveTail.then(task);
+    this.exclusiveTail = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Get the state of the queue of a model.
+   * @param modelId The model ID.
+   * @returns The queue state.
+   */
+  getState(modelId: string): ILlamacppJobQueueState {
+    const queue = this.queues.get(modelId);
+    if (!queue) {
+      return {
+        queued: 0,
+        active: 0,
+        oldestWaitTime: 0,
+        averageWaitTime: 0,
+      };
+    }
+
+    const now = Date.now();
+    return {
+      queued: queue.waiting.length,
+      active: queue.active,
+      oldestWaitTime: queue.waiting.reduce((oldest, job) => Math.max(oldest, now - job.queuedAt), 0),
+      averageWaitTime: queue.started > 0 ? queue.totalWaitTime / queue.started : 0,
+    };
+  }
+
+  /**
+   * Start the waiting jobs while the concurrency limit allows it, the first job by priority and arrival among the queues with free slots first.
+   * @ignore
+   */
+  private dispatch(): void {
+    while (this.active < this.maxActive) {
+      let next: ILlamacppJobQueue | undefined;
+      for (const queue of this.queues.values()) {
+        const job = queue.waiting[0];
+        if (!job || queue.active >= queue.slots) {
+          continue;
+        }
+        const best = next?.waiting[0];
+        if (!best || job.priority < best.priority || (job.priority === best.priority && job.queuedAt < best.queuedAt)) {
+          next = queue;
+        }
+      }
+      if (!next) {
+        return;
+      }
+      const job = next.waiting.shift()!;
+      next.active++;
+      this.active++;
+      job.start();
+    }
+  }
+}
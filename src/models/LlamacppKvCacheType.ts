@@ -0,0 +1,6 @@
+import type { GgmlType } from 'node-llama-cpp';
+
+/**
+ * The data type of the KV cache of a context, such as `F16` or `Q8_0`.
+ */
+export type LlamacppKvCacheType = keyof typeof GgmlType;
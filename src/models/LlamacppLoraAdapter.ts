@@ -0,0 +1,24 @@
+/**
+ * A LoRA adapter of a model, applied on top of the base weights by the jobs that select it.
+ */
+export interface ILlamacppLoraAdapter {
+  /**
+   * The adapter ID, unique among the adapters of the model.
+   */
+  id: string;
+
+  /**
+   * The URL of the adapter GGUF file, a `file://` URL or an absolute path.
+   */
+  sourceUrl: string;
+
+  /**
+   * The expected SHA-256 of the adapter file, as a hex string.
+   */
+  sha256?: string;
+
+  /**
+   * The default scale of the adapter. Defaults to 1.
+   */
+  scale?: number;
+}
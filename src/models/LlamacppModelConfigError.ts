@@ -0,0 +1,9 @@
+/**
+ * An error raised when the load options of a model are invalid or cannot be satisfied.
+ */
+export class LlamacppModelConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlamacppModelConfigError';
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * An error that makes a download fail without being resumed.
+ */
+export class LlamacppModelDownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlamacppModelDownloadError';
+  }
+}
@@ -0,0 +1,37 @@
+import { ILlamacppModelDownloadProgress } from './LlamacppModelDownloadProgress';
+
+/**
+ * The options for a model download.
+ */
+export interface ILlamacppModelDownloadOptions {
+  /**
+   * The model ID, used to tag progress events.
+   */
+  modelId: string;
+
+  /**
+   * The URL to download from.
+   */
+  url: string;
+
+  /**
+   * The final path of the model file.
+   */
+  destination: string;
+
+  /**
+   * The expected SHA-256 of the file, as a hex string.
+   */
+  sha256?: string;
+
+  /**
+   * Called with the number of bytes left to download once the size of the file is known, before they are written.
+   * Throwing a {@link LlamacppModelDownloadError} cancels the download without retrying it.
+   */
+  reserve?: (bytes: number) => Promise<void>;
+
+  /**
+   * Called with the progress of the download.
+   */
+  onProgress?: (progress: ILlamacppModelDownloadProgress) => void;
+}
@@ -0,0 +1,24 @@
+/**
+ * The progress of a model download.
+ */
+export interface ILlamacppModelDownloadProgress {
+  /**
+   * The model ID.
+   */
+  modelId: string;
+
+  /**
+   * The number of bytes written to disk, including resumed bytes.
+   */
+  bytes: number;
+
+  /**
+   * The total size of the file in bytes, if known.
+   */
+  total?: number;
+
+  /**
+   * The download rate in bytes per second.
+   */
+  rate: number;
+}
@@ -0,0 +1,275 @@
+import { createHash } from 'crypto';
+import { closeSync, createReadStream, createWriteStream, existsSync, openSync, readSync, renameSync, statSync, unlinkSync } from 'fs';
+import { pipeline } from 'stream/promises';
+import type { IncomingMessage } from 'http';
+import http from 'follow-redirects/http.js';
+import https from 'follow-redirects/https.js';
+
+import { EventEmitter } from 'events';
+
+import { ILlamacppModelDownloadOptions } from './LlamacppModelDownloadOptions';
+import { ILlamacppModelDownloadProgress } from './LlamacppModelDownloadProgress';
+import { LlamacppModelDownloadError } from './LlamacppModelDownloadError.js';
+
+/**
+ * The magic bytes at the start of every GGUF file.
+ * @ignore
+ */
+const GGUF_MAGIC = 'GGUF';
+
+/**
+ * Downloads model files to disk.
+ * The file is written to a `.part` file that is resumed with HTTP Range requests, validated and only then moved into place.
+ * Emits `progress` events with an {@link ILlamacppModelDownloadProgress}.
+ */
+export class LlamacppModelDownloader extends EventEmitter {
+  /**
+   * The downloads in progress, keyed by destination.
+   * @ignore
+   */
+  private pending: Map<string, Promise<void>> = new Map();
+
+  /**
+   * The constructor.
+   * @param retries The number of times an interrupted download is resumed before giving up.
+   * @param progressInterval The minimum interval between progress events, in milliseconds.
+   * @param idleTimeout The time in milliseconds without receiving data after which a transfer is interrupted and resumed.
+   */
+  constructor(
+    private retries = 3,
+    private progressInterval = 500,
+    private idleTimeout = 30 * 1000,
+  ) {
+    super();
+  }
+
+  /**
+   * Download a model file.
+   * Concurrent downloads to the same destination share the same transfer.
+   * @param options The download options.
+   * @returns A promise that resolves when the file is in place.
+   */
+  async download(options: ILlamacppModelDownloadOptions): Promise<void> {
+    const { modelId, destination, onProgress } = options;
+
+    const listener = (progress: ILlamacppModelDownloadProgress) => {
+      if (progress.modelId === modelId) {
+        onProgress?.(progress);
+      }
+    };
+    if (onProgress) {
+      this.on('progress', listener);
+    }
+
+    try {
+      let download = this.pending.get(destination);
+      if (!download) {
+        download = this.run(options).finally(() => {
+          this.pending.delete(destination);
+        });
+        this.pending.set(destination, download);
+      }
+      await download;
+    } finally {
+      this.off('progress', listener);
+    }
+  }
+
+  /**
+   * Run a download to completion.
+   * @param options The download options.
+   * @returns A promise that resolves when the file is in place.
+   * @ignore
+   */
+  private async run({ modelId, url, destination, sha256, reserve }: ILlamacppModelDownloadOptions): Promise<void> {
+    const partPath = `${destination}.part`;
+
+    let attempt = 0;
+    while (true) {
+      try {
+        await this.fetch(modelId, url, partPath, reserve);
+        break;
+      } catch (e) {
+        if (e instanceof LlamacppModelDownloadError || attempt >= this.retries) {
+          throw e;
+        }
+        attempt++;
+        console.error(`Download of model ${modelId} interrupted, resuming (attempt ${attempt}/${this.retries})`, e);
+      }
+    }
+
+    try {
+      await this.verify(modelId, partPath, sha256);
+    } catch (e) {
+      unlinkSync(partPath);
+      throw e;
+    }
+
+    renameSync(partPath, destination);
+  }
+
+  /**
+   * Check that a model file is a GGUF file, with the expected checksum if one is given.
+   * @param modelId The model ID.
+   * @param path The path of the file.
+   * @param sha256 The expected SHA-256 checksum of the file.
+   * @returns A promise that resolves if the file is valid, or rejects with a {@link LlamacppModelDownloadError}.
+   */
+  async verify(modelId: string, path: string, sha256?: string): Promise<void> {
+    if (!this.hasGgufHeader(path)) {
+      throw new LlamacppModelDownloadError(`File for model ${modelId} is not a GGUF file`);
+    }
+
+    if (sha256) {
+      const checksum = await this.getChecksum(path);
+      if (checksum !== sha256.toLowerCase()) {
+        throw new LlamacppModelDownloadError(`Checksum mismatch for model ${modelId}: expected ${sha256}, got ${checksum}`);
+      }
+    }
+  }
+
+  /**
+   * Fetch the file into the part file, resuming from its current size.
+   * @param modelId The model ID.
+   * @param url The URL.
+   * @param partPath The path of the part file.
+   * @param reserve Called with the number of bytes left to download before they are written.
+   * @returns A promise that resolves when the whole file has been written.
+   * @ignore
+   */
+  private async fetch(modelId: string, url: string, partPath: string, reserve?: (bytes: number) => Promise<void>): Promise<void> {
+    let offset = existsSync(partPath) ? statSync(partPath).size : 0;
+    const response = await this.request(url, offset > 0 ? { Range: `bytes=${offset}-` } : {});
+
+    if (response.statusCode === 416) {
+      response.resume();
+      const total = this.getContentRangeTotal(response);
+      if (total !== undefined && total === offset) {
+        return;
+      }
+      unlinkSync(partPath);
+      return this.fetch(modelId, url, partPath, reserve);
+    }
+
+    if (response.statusCode !== 200 && response.statusCode !== 206) {
+      response.resume();
+      throw new LlamacppModelDownloadError(`Unexpected status code ${response.statusCode} downloading model ${modelId}`);
+    }
+
+    if (response.statusCode === 200) {
+      offset = 0;
+    }
+
+    const contentLength = response.headers['content-length'] ? parseInt(response.headers['content-length'], 10) : undefined;
+    const total = this.getContentRangeTotal(response) ?? (contentLength !== undefined ? offset + contentLength : undefined);
+
+    if (reserve && total !== undefined) {
+      try {
+        await reserve(total - offset);
+      } catch (e) {
+        response.destroy();
+        throw e;
+      }
+    }
+
+    // A stalled connection is destroyed, so the transfer is resumed instead of hanging forever.
+    response.setTimeout(this.idleTimeout, () => {
+      response.destroy(new Error(`Download of model ${modelId} stalled for ${this.idleTimeout} ms`));
+    });
+
+    let bytes = offset;
+    let lastEmit = 0;
+    const startedAt = Date.now();
+    const emitProgress = () => {
+      const elapsed = (Date.now() - startedAt) / 1000;
+      this.emit('progress', {
+        modelId,
+        bytes,
+        total,
+        rate: elapsed > 0 ? (bytes - offset) / elapsed : 0,
+      } as ILlamacppModelDownloadProgress);
+    };
+
+    response.on('data', (chunk: Buffer) => {
+      bytes += chunk.length;
+      if (Date.now() - lastEmit >= this.progressInterval) {
+        lastEmit = Date.now();
+        emitProgress();
+      }
+    });
+
+    await pipeline(response, createWriteStream(partPath, { flags: offset > 0 ? 'a' : 'w' }));
+    emitProgress();
+
+    if (total !== undefined && bytes !== total) {
+      throw new Error(`Download of model ${modelId} ended at ${bytes} of ${total} bytes`);
+    }
+  }
+
+  /**
+   * Send a GET request, following redirects.
+   * @param url The URL.
+   * @param headers The request headers.
+   * @returns A promise that resolves with the response.
+   * @ignore
+   */
+  private request(url: string, headers: { [key: string]: string }): Promise<IncomingMessage> {
+    const client = url.startsWith('http:') ? http : https;
+    return new Promise((resolve, reject) => {
+      const request = client.get(url, { headers }, (response) => {
+        clearTimeout(timer);
+        resolve(response);
+      });
+      const timer = setTimeout(() => {
+        request.destroy(new Error(`No response from ${url} after ${this.idleTimeout} ms`));
+      }, this.idleTimeout);
+      request.on('error', (e) => {
+        clearTimeout(timer);
+        reject(e);
+      });
+    });
+  }
+
+  /**
+   * Get the total size from a Content-Range header.
+   * @param response The response.
+   * @returns The total size, if the header is present and complete.
+   * @ignore
+   */
+  private getContentRangeTotal(response: IncomingMessage): number | undefined {
+    const match = response.headers['content-range']?.match(/\/(\d+)$/);
+    return match ? parseInt(match[1], 10) : undefined;
+  }
+
+  /**
+   * Check that a file starts with the GGUF magic bytes.
+   * @param path The path of the file.
+   * @returns True if the file is a GGUF file.
+   * @ignore
+   */
+  private hasGgufHeader(path: string): boolean {
+    const buffer = Buffer.alloc(GGUF_MAGIC.length);
+    const fd = openSync(path, 'r');
+    try {
+      const read = readSync(fd, buffer, 0, buffer.length, 0);
+      return read === buffer.length && buffer.toString('ascii') === GGUF_MAGIC;
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Compute the SHA-256 of a file.
+   * @param path The path of the file.
+   * @returns A promise that resolves with the hex digest.
+   * @ignore
+   */
+  private async getChecksum(path: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(path)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+}
+
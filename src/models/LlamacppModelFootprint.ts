@@ -0,0 +1,14 @@
+/**
+ * The memory footprint of a loaded model.
+ */
+export interface ILlamacppModelFootprint {
+  /**
+   * The RAM used by the model, in bytes.
+   */
+  ram: number;
+
+  /**
+   * The VRAM used by the model, in bytes.
+   */
+  vram: number;
+}
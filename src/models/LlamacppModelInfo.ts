@@ -0,0 +1,42 @@
+import { ILlamacppModelMetadata } from './LlamacppModelMetadata';
+import { LlamacppModelOutputType } from './LlamacppModelOutputType';
+
+/**
+ * The capabilities and load state of an initialized model.
+ */
+export interface ILlamacppModelInfo {
+  /**
+   * The model ID.
+   */
+  id: string;
+
+  /**
+   * The output type of the model.
+   */
+  outputType: LlamacppModelOutputType;
+
+  /**
+   * The metadata of the model, read from its GGUF file.
+   */
+  metadata?: ILlamacppModelMetadata;
+
+  /**
+   * Whether the model is loaded in memory.
+   */
+  loaded: boolean;
+
+  /**
+   * The number of tokens of the context of the model, when one is created.
+   */
+  contextSize?: number;
+
+  /**
+   * The number of context sequences in use, when a context is created.
+   */
+  activeSequences?: number;
+
+  /**
+   * The number of workflows that use the model.
+   */
+  workflows: number;
+}
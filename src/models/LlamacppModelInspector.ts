@@ -0,0 +1,37 @@
+import type { Llama } from 'node-llama-cpp';
+
+import { ILlamacppModelMetadata } from './LlamacppModelMetadata';
+
+/**
+ * Reads the metadata of models from the header of their GGUF files, without loading their weights.
+ */
+export class LlamacppModelInspector {
+  /**
+   * Read the metadata of a model file.
+   * @param pathName The path of the model file.
+   * @param engine The engine, used to resolve the insights of the model.
+   * @returns A promise that resolves with the metadata.
+   */
+  async inspect(pathName: string, engine: Llama): Promise<ILlamacppModelMetadata> {
+    const { readGgufFileInfo, GgufInsights, GgufFileType } = await import('node-llama-cpp');
+    const fileInfo = await readGgufFileInfo(pathName, {
+      sourceType: 'filesystem',
+      logWarnings: false,
+    });
+    const insights = await GgufInsights.from(fileInfo, engine);
+    const { general, tokenizer } = fileInfo.metadata;
+
+    return {
+      architecture: general.architecture,
+      name: general.name,
+      trainContextSize: insights.trainContextSize,
+      embeddingSize: insights.embeddingVectorSize,
+      parameterCount: insights.totalParameters,
+      quantization: general.file_type !== undefined ? GgufFileType[general.file_type] : undefined,
+      layerCount: insights.totalLayers,
+      chatTemplate: tokenizer.chat_template,
+      supportsRanking: insights.supportsRanking,
+      size: insights.modelSize,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { LlamacppKvCacheType } from './LlamacppKvCacheType';
+
+/**
+ * The options used to load a model and create its contexts.
+ */
+export interface ILlamacppModelLoadOptions {
+  /**
+   * The number of tokens of the context, defaults to the largest size that fits in memory.
+   */
+  contextSize?: number;
+
+  /**
+   * The number of tokens evaluated in a single batch, defaults to the context size.
+   */
+  batchSize?: number;
+
+  /**
+   * The number of threads used for evaluation, defaults to the number of CPU cores.
+   */
+  threads?: number;
+
+  /**
+   * The number of layers offloaded to the GPU, `auto` to fit the available VRAM or `max` to offload every layer. Defaults to `auto`.
+   */
+  gpuLayers?: number | 'auto' | 'max';
+
+  /**
+   * Whether the model file is memory-mapped instead of read into memory. Defaults to true where supported.
+   */
+  useMmap?: boolean;
+
+  /**
+   * Whether the model is locked in RAM so it is never swapped out. Defaults to false.
+   */
+  useMlock?: boolean;
+
+  /**
+   * Whether flash attention is used by the contexts of the model. Defaults to true.
+   */
+  flashAttention?: boolean;
+
+  /**
+   * The data type of the keys of the KV cache, a quantized type shrinks the memory of the context. Defaults to `F16`.
+   */
+  kvCacheKeyType?: LlamacppKvCacheType;
+
+  /**
+   * The data type of the values of the KV cache, a quantized type shrinks the memory of the context. Defaults to `F16`.
+   */
+  kvCacheValueType?: LlamacppKvCacheType;
+}
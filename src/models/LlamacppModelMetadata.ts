@@ -0,0 +1,54 @@
+/**
+ * The metadata of a model, read from the header of its GGUF file.
+ */
+export interface ILlamacppModelMetadata {
+  /**
+   * The architecture of the model, such as `llama` or `qwen2`.
+   */
+  architecture: string;
+
+  /**
+   * The name of the model.
+   */
+  name?: string;
+
+  /**
+   * The number of tokens of the context the model was trained with.
+   */
+  trainContextSize?: number;
+
+  /**
+   * The number of dimensions of the embedding vectors of the model.
+   */
+  embeddingSize?: number;
+
+  /**
+   * The number of parameters of the model.
+   */
+  parameterCount: number;
+
+  /**
+   * The quantization of the model file, such as `MOSTLY_Q4_K_M`.
+   */
+  quantization?: string;
+
+  /**
+   * The number of layers of the model.
+   */
+  layerCount: number;
+
+  /**
+   * The chat template of the model.
+   */
+  chatTemplate?: string;
+
+  /**
+   * Whether the model can rank documents.
+   */
+  supportsRanking: boolean;
+
+  /**
+   * The size of the weights of the model in bytes.
+   */
+  size: number;
+}
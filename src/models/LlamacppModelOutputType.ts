@@ -0,0 +1,6 @@
+import type { GenerativeAIModelOutputType } from '@crewdle/web-sdk-types';
+
+/**
+ * The output type of a model, extended with `ranking` for reranker models that score documents against a query.
+ */
+export type LlamacppModelOutputType = GenerativeAIModelOutputType | 'ranking';
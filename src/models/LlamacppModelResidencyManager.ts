@@ -0,0 +1,179 @@
+import { totalmem } from 'os';
+
+import type { Llama } from 'node-llama-cpp';
+
+import { ILlamacppModelFootprint } from './LlamacppModelFootprint';
+
+/**
+ * The residency record of a loaded model.
+ * @ignore
+ */
+interface ILlamacppModelResidency {
+  footprint: ILlamacppModelFootprint;
+  contexts: Map<string, ILlamacppModelFootprint>;
+  lastUsed: number;
+  activeSequences: number;
+  pinned: boolean;
+}
+
+/**
+ * Keeps track of the loaded models and decides which ones to evict to stay within a memory budget.
+ * The footprint of a model includes the contexts created for it, which are disposed along with it.
+ * Models are evicted least-recently-used first, and only when they are idle and not pinned.
+ */
+export class LlamacppModelResidencyManager {
+  /**
+   * The loaded models.
+   * @ignore
+   */
+  private residents: Map<string, ILlamacppModelResidency> = new Map();
+
+  /**
+   * The RAM budget in bytes, defaults to the total system memory.
+   * @ignore
+   */
+  private ramBudget?: number;
+
+  /**
+   * The VRAM budget in bytes, defaults to the total VRAM.
+   * @ignore
+   */
+  private vramBudget?: number;
+
+  /**
+   * Set the memory budget.
+   * @param ramBudget The RAM budget in bytes.
+   * @param vramBudget The VRAM budget in bytes.
+   */
+  setBudget(ramBudget?: number, vramBudget?: number): void {
+    if (ramBudget !== undefined) {
+      this.ramBudget = ramBudget;
+    }
+    if (vramBudget !== undefined) {
+      this.vramBudget = vramBudget;
+    }
+  }
+
+  /**
+   * Record a model as loaded.
+   * @param id The model ID.
+   * @param footprint The memory footprint of the model.
+   * @param pinned Whether the model must never be evicted.
+   */
+  track(id: string, footprint: ILlamacppModelFootprint, pinned = false): void {
+    this.residents.set(id, {
+      footprint,
+      contexts: new Map(),
+      lastUsed: Date.now(),
+      activeSequences: 0,
+      pinned,
+    });
+  }
+
+  /**
+   * Record a model as unloaded.
+   * @param id The model ID.
+   */
+  untrack(id: string): void {
+    this.residents.delete(id);
+  }
+
+  /**
+   * Record a context of a model as created.
+   * @param id The model ID.
+   * @param key The key of the context.
+   * @param footprint The memory footprint of the context.
+   */
+  trackContext(id: string, key: string, footprint: ILlamacppModelFootprint): void {
+    this.residents.get(id)?.contexts.set(key, footprint);
+  }
+
+  /**
+   * Record a context of a model as disposed.
+   * @param id The model ID.
+   * @param key The key of the context.
+   */
+  untrackContext(id: string, key: string): void {
+    this.residents.get(id)?.contexts.delete(key);
+  }
+
+  /**
+   * Mark a model as in use by a context sequence.
+   * @param id The model ID.
+   */
+  acquire(id: string): void {
+    const resident = this.residents.get(id);
+    if (resident) {
+      resident.activeSequences++;
+      resident.lastUsed = Date.now();
+    }
+  }
+
+  /**
+   * Mark a context sequence of a model as released.
+   * @param id The model ID.
+   */
+  release(id: string): void {
+    const resident = this.residents.get(id);
+    if (resident) {
+      resident.activeSequences = Math.max(0, resident.activeSequences - 1);
+      resident.lastUsed = Date.now();
+    }
+  }
+
+  /**
+   * Get the models to evict so that a model with the given footprint fits in the budget.
+   * If the model cannot fit even after evicting every idle model, all idle models are returned.
+   * @param required The footprint of the model to load.
+   * @param engine The Llama engine, used to resolve the default VRAM budget.
+   * @returns The IDs of the models to evict, least recently used first.
+   */
+  async getEvictions(required: ILlamacppModelFootprint, engine: Llama): Promise<string[]> {
+    const ramBudget = this.ramBudget ?? totalmem();
+    const vramBudget = this.vramBudget ?? (await engine.getVramState()).total;
+
+    let ram = required.ram;
+    let vram = required.vram;
+    for (const resident of this.residents.values()) {
+      const footprint = this.getFootprint(resident);
+      ram += footprint.ram;
+      vram += footprint.vram;
+    }
+
+    const candidates = Array.from(this.residents.entries())
+      .filter(([, resident]) => !resident.pinned && resident.activeSequences === 0)
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+    const evictions: string[] = [];
+    for (const [id, resident] of candidates) {
+      if (ram <= ramBudget && vram <= vramBudget) {
+        break;
+      }
+      const footprint = this.getFootprint(resident);
+      evictions.push(id);
+      ram -= footprint.ram;
+      vram -= footprint.vram;
+    }
+
+    if (ram > ramBudget || vram > vramBudget) {
+      console.warn('Model does not fit in the memory budget after evicting all idle models');
+    }
+
+    return evictions;
+  }
+
+  /**
+   * Get the footprint of a model with its contexts.
+   * @param resident The residency record of the model.
+   * @returns The footprint.
+   * @ignore
+   */
+  private getFootprint(resident: ILlamacppModelResidency): ILlamacppModelFootprint {
+    let { ram, vram } = resident.footprint;
+    for (const context of resident.contexts.values()) {
+      ram += context.ram;
+      vram += context.vram;
+    }
+    return { ram, vram };
+  }
+}
@@ -0,0 +1,323 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, statfsSync, unlinkSync, writeFileSync } from 'fs';
+import { isAbsolute } from 'path';
+import { fileURLToPath } from 'url';
+
+import { ILlamacppGenerativeAIModel } from './LlamacppGenerativeAIModel';
+import { ILlamacppModelDownloadProgress } from './LlamacppModelDownloadProgress';
+import { LlamacppModelDownloader } from './LlamacppModelDownloader.js';
+import { LlamacppModelDownloadError } from './LlamacppModelDownloadError.js';
+
+/**
+ * The version of the manifest format.
+ * @ignore
+ */
+const MANIFEST_VERSION = 1;
+
+/**
+ * The free disk space kept aside when downloading, in bytes.
+ * @ignore
+ */
+const DISK_SPACE_MARGIN = 512 * 1024 * 1024;
+
+/**
+ * The manifest record of a model file.
+ * @ignore
+ */
+interface ILlamacppStoredModel {
+  id: string;
+  parentId?: string;
+  sourceUrl: string;
+  sha256?: string;
+  size: number;
+  downloadedAt: number;
+  lastUsed: number;
+  local: boolean;
+}
+
+/**
+ * The manifest of the model store.
+ * @ignore
+ */
+interface ILlamacppModelManifest {
+  version: number;
+  models: { [id: string]: ILlamacppStoredModel };
+}
+
+/**
+ * Keeps the model files of a base folder, with a `models.json` manifest recording their source, checksum, size and use.
+ * Downloads check the free disk space first, and unused files are evicted, least recently used first, to stay within the disk quota.
+ * A `file://` URL or an absolute path as source is used in place and never evicted, for deployments without network access.
+ */
+export class LlamacppModelStore {
+  /**
+   * The constructor.
+   * @param folder The folder of the model files.
+   * @param downloader The downloader.
+   * @param isInUse Whether a model is initialized, so its file cannot be evicted.
+   * @param quota The maximum size of the downloaded model files in bytes.
+   * @param retention The time in milliseconds after which an unused model file is evicted.
+   */
+  constructor(
+    private folder: string,
+    private downloader: LlamacppModelDownloader,
+    private isInUse: (id: string) => boolean,
+    private quota?: number,
+    private retention?: number,
+  ) {}
+
+  /**
+   * Get the model file of a model, downloading it if it is not in the store.
+   * A file downloaded from another source is replaced.
+   * @param model The model, or a file belonging to a model such as a LoRA adapter.
+   * @param onProgress Called with the progress of the download.
+   * @param parentId The ID of the model the file belongs to, which keeps the file from being evicted while the model is in use.
+   * @returns A promise that resolves with the path of the model file.
+   */
+  async fetch(model: Pick<ILlamacppGenerativeAIModel, 'id' | 'sourceUrl' | 'sha256'>, onProgress?: (progress: ILlamacppModelDownloadProgress) => void, parentId?: string): Promise<string> {
+    const localPath = this.getLocalPath(model.sourceUrl);
+    if (localPath) {
+      if (!existsSync(localPath)) {
+        throw new LlamacppModelDownloadError(`Model file for model ${model.id} not found: ${localPath}`);
+      }
+      this.record(model, localPath, true, parentId);
+      return localPath;
+    }
+
+    const path = this.getPath(model.id);
+    const stored = this.readManifest().models[model.id];
+    if (existsSync(path) && stored && stored.sourceUrl !== model.sourceUrl) {
+      console.log(`Source of model ${model.id} changed, downloading it again`);
+      this.remove(model.id);
+    } else if (existsSync(path)) {
+      // A file without a record may be left by an interrupted download, and a recorded file is checked again when its checksum changes.
+      if ((stored && (!model.sha256 || stored.sha256?.toLowerCase() === model.sha256.toLowerCase())) || await this.isValid(model, path)) {
+        this.record(model, path, false, parentId);
+        return path;
+      }
+      console.log(`File of model ${model.id} is invalid, downloading it again`);
+      this.remove(model.id);
+    }
+
+    if (!existsSync(this.folder)) {
+      mkdirSync(this.folder, { recursive: true });
+    }
+    console.log(`Downloading model ${model.id}: ${model.sourceUrl}`);
+    await this.downloader.download({
+      modelId: model.id,
+      url: model.sourceUrl,
+      destination: path,
+      sha256: model.sha256,
+      onProgress,
+      reserve: async (bytes) => this.reserve(model.id, bytes),
+    });
+    this.record(model, path, false, parentId, Date.now());
+    return path;
+  }
+
+  /**
+   * Mark a model file as used now.
+   * @param id The model ID.
+   */
+  touch(id: string): void {
+    const manifest = this.readManifest();
+    const now = Date.now();
+    for (const stored of Object.values(manifest.models)) {
+      if (stored.id === id || stored.parentId === id) {
+        stored.lastUsed = now;
+      }
+    }
+    this.writeManifest(manifest);
+  }
+
+  /**
+   * Delete the file of a model and its manifest record.
+   * A local file is only forgotten, never deleted.
+   * @param id The model ID.
+   */
+  remove(id: string): void {
+    const manifest = this.readManifest();
+    const stored = manifest.models[id];
+    const path = this.getPath(id);
+    if (!stored?.local) {
+      for (const file of [path, `${path}.part`]) {
+        if (existsSync(file)) {
+          unlinkSync(file);
+        }
+      }
+    }
+    if (stored) {
+      delete manifest.models[id];
+      this.writeManifest(manifest);
+    }
+  }
+
+  /**
+   * Evict the unused model files that expired or exceed the disk quota.
+   * @param reserved The number of bytes about to be added to the store.
+   * @returns The IDs of the evicted models.
+   */
+  collect(reserved = 0): string[] {
+    const manifest = this.readManifest();
+    const now = Date.now();
+    const evictable = Object.values(manifest.models)
+      .filter((stored) => !stored.local && !this.isInUse(stored.parentId ?? stored.id))
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+    let used = this.getUsage(manifest);
+
+    const evicted: string[] = [];
+    for (const stored of evictable) {
+      const expired = this.retention !== undefined && now - stored.lastUsed > this.retention;
+      const overQuota = this.quota !== undefined && used + reserved > this.quota;
+      if (!expired && !overQuota) {
+        continue;
+      }
+      console.log(`Evicting model file ${stored.id}`);
+      this.remove(stored.id);
+      used -= stored.size;
+      evicted.push(stored.id);
+    }
+    return evicted;
+  }
+
+  /**
+   * Make room for a download, evicting unused files if needed.
+   * @param id The model ID.
+   * @param bytes The number of bytes to download.
+   * @returns A promise that resolves when there is room for the download.
+   * @ignore
+   */
+  private async reserve(id: string, bytes: number): Promise<void> {
+    if (this.quota !== undefined && bytes > this.quota) {
+      throw new LlamacppModelDownloadError(`Model ${id} needs ${bytes} bytes, more than the disk quota of ${this.quota} bytes`);
+    }
+    this.collect(bytes);
+    const used = this.getUsage(this.readManifest());
+    if (this.quota !== undefined && used + bytes > this.quota) {
+      throw new LlamacppModelDownloadError(`Model ${id} needs ${bytes} bytes, but only ${Math.max(this.quota - used, 0)} bytes of the disk quota can be freed`);
+    }
+
+    const stats = statfsSync(this.folder);
+    const free = stats.bavail * stats.bsize;
+    if (free < bytes + DISK_SPACE_MARGIN) {
+      throw new LlamacppModelDownloadError(`Not enough disk space to download model ${id}: ${bytes} bytes needed, ${free} bytes free`);
+    }
+  }
+
+  /**
+   * Check a model file found in the store.
+   * @param model The model.
+   * @param path The path of the model file.
+   * @returns A promise that resolves with true if the file is a GGUF file with the checksum of the model.
+   * @ignore
+   */
+  private async isValid(model: Pick<ILlamacppGenerativeAIModel, 'id' | 'sha256'>, path: string): Promise<boolean> {
+    try {
+      await this.downloader.verify(model.id, path, model.sha256);
+      return true;
+    } catch (e) {
+      if (e instanceof LlamacppModelDownloadError) {
+        console.error(e.message);
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Record a model file in the manifest.
+   * @param model The model.
+   * @param path The path of the model file.
+   * @param local Whether the file is used in place from a local source.
+   * @param parentId The ID of the model the file belongs to.
+   * @param downloadedAt When the file was downloaded, defaults to the previous record or the file modification time.
+   * @ignore
+   */
+  private record(model: Pick<ILlamacppGenerativeAIModel, 'id' | 'sourceUrl' | 'sha256'>, path: string, local: boolean, parentId?: string, downloadedAt?: number): void {
+    const manifest = this.readManifest();
+    const stats = statSync(path);
+    const now = Date.now();
+    manifest.models[model.id] = {
+      id: model.id,
+      parentId,
+      sourceUrl: model.sourceUrl,
+      sha256: model.sha256 ?? manifest.models[model.id]?.sha256,
+      size: stats.size,
+      downloadedAt: downloadedAt ?? manifest.models[model.id]?.downloadedAt ?? Math.floor(stats.mtimeMs),
+      lastUsed: now,
+      local,
+    };
+    this.writeManifest(manifest);
+  }
+
+  /**
+   * Get the size of the downloaded model files.
+   * @param manifest The manifest.
+   * @returns The size in bytes, without the local files.
+   * @ignore
+   */
+  private getUsage(manifest: ILlamacppModelManifest): number {
+    return Object.values(manifest.models)
+      .filter((stored) => !stored.local)
+      .reduce((total, stored) => total + stored.size, 0);
+  }
+
+  /**
+   * Get the path of a local source.
+   * @param sourceUrl The source URL of the model.
+   * @returns The path, or undefined if the source is remote.
+   * @ignore
+   */
+  private getLocalPath(sourceUrl: string): string | undefined {
+    if (sourceUrl.startsWith('file://')) {
+      return fileURLToPath(sourceUrl);
+    }
+    return isAbsolute(sourceUrl) ? sourceUrl : undefined;
+  }
+
+  /**
+   * Get the path of the file of a downloaded model.
+   * @param id The model ID.
+   * @returns The path.
+   * @ignore
+   */
+  private getPath(id: string): string {
+    return `${this.folder}/${id}.gguf`;
+  }
+
+  /**
+   * Read the manifest, empty if it does not exist or cannot be read.
+   * @returns The manifest.
+   * @ignore
+   */
+  private readManifest(): ILlamacppModelManifest {
+    const path = `${this.folder}/models.json`;
+    if (existsSync(path)) {
+      try {
+        const manifest = JSON.parse(readFileSync(path, 'utf-8')) as ILlamacppModelManifest;
+        if (manifest.version === MANIFEST_VERSION) {
+          return manifest;
+        }
+      } catch (e) {
+        console.error('Failed to read the model manifest', e);
+      }
+    }
+    return {
+      version: MANIFEST_VERSION,
+      models: {},
+    };
+  }
+
+  /**
+   * Write the manifest.
+   * @param manifest The manifest.
+   * @ignore
+   */
+  private writeManifest(manifest: ILlamacppModelManifest): void {
+    const path = `${this.folder}/models.json`;
+    if (!existsSync(this.folder)) {
+      mkdirSync(this.folder, { recursive: true });
+    }
+    writeFileSync(`${path}.part`, JSON.stringify(manifest, null, 2));
+    renameSync(`${path}.part`, path);
+  }
+}
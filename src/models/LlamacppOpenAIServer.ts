@@ -0,0 +1,529 @@
+import { randomUUID } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+
+import type { GenerativeAIJobType, GenerativeAIModelOutputType, IGenerativeAIModel, IPromptFunction, IPromptFunctionParams, IPromptHistory, PromptFunction, PromptSource } from '@crewdle/web-sdk-types';
+
+import { LlamacppGenerativeAIWorkerConnector } from './LlamacppGenerativeAIWorkerConnector.js';
+import { ILlamacppGenerativeAIWorkerConnectorParameters } from './LlamacppGenerativeAIWorkerConnectorParameters';
+import { ILlamacppGenerativeAIWorkerConnectorResult } from './LlamacppGenerativeAIWorkerConnectorResult';
+import { ILlamacppOpenAIServerOptions } from './LlamacppOpenAIServerOptions';
+import { LlamacppStopReason } from './LlamacppStopReason';
+
+/**
+ * The default maximum size of a request body in bytes.
+ * @ignore
+ */
+const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024;
+
+/**
+ * An error answered with an HTTP status code.
+ * @ignore
+ */
+class LlamacppHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public type = 'invalid_request_error',
+  ) {
+    super(message);
+    this.name = 'LlamacppHttpError';
+  }
+}
+
+/**
+ * A chat message of the OpenAI API.
+ * @ignore
+ */
+interface IOpenAIChatMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content?: string | { type: string, text?: string }[] | null;
+  name?: string;
+  tool_calls?: { id: string, function: { name: string, arguments: string } }[];
+  tool_call_id?: string;
+}
+
+/**
+ * A tool call returned to the client.
+ * @ignore
+ */
+interface IOpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * An HTTP server exposing a connector through the OpenAI API, for tools that cannot use the Crewdle SDK.
+ * It serves `/v1/chat/completions`, with server-sent events when streaming, `/v1/embeddings` and `/v1/models`.
+ * Tools are not run by the server: when the model calls one, the job stops and the call is returned to the client.
+ */
+export class LlamacppOpenAIServer {
+  /**
+   * The HTTP server.
+   * @ignore
+   */
+  private server?: Server;
+
+  /**
+   * The constructor.
+   * @param connector The connector, initialized with the models.
+   * @param models The models the server serves, keyed by model ID, of which only the ones initialized in the connector are listed and used.
+   * @param options The server options.
+   */
+  constructor(
+    private connector: LlamacppGenerativeAIWorkerConnector,
+    private models: Map<string, IGenerativeAIModel>,
+    private options: ILlamacppOpenAIServerOptions = {},
+  ) {}
+
+  /**
+   * Start listening.
+   * @returns A promise that resolves when the server is listening.
+   */
+  listen(): Promise<void> {
+    if (this.server) {
+      return Promise.resolve();
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((e) => this.sendError(res, e));
+    });
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 8080, this.options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop listening.
+   * @returns A promise that resolves when the server is closed.
+   */
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      server.close((e) => e ? reject(e) : resolve());
+    });
+  }
+
+  /**
+   * Handle a request.
+   * @param req The request.
+   * @param res The response.
+   * @returns A promise that resolves when the response is sent.
+   * @ignore
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (this.options.apiKey && req.headers.authorization !== `Bearer ${this.options.apiKey}`) {
+      throw new LlamacppHttpError(401, 'Invalid API key', 'authentication_error');
+    }
+
+    const path = (req.url ?? '/').split('?')[0];
+    if (req.method === 'GET' && path === '/v1/models') {
+      return this.sendJson(res, 200, this.getModels());
+    }
+    if (req.method === 'POST' && path === '/v1/chat/completions') {
+      return this.handleChatCompletions(req, res, await this.readBody(req));
+    }
+    if (req.method === 'POST' && path === '/v1/embeddings') {
+      return this.sendJson(res, 200, await this.getEmbeddings(await this.readBody(req)));
+    }
+    throw new LlamacppHttpError(404, `Unknown route ${req.method} ${path}`);
+  }
+
+  /**
+   * Get the list of the models initialized in the connector.
+   * @returns The models response.
+   * @ignore
+   */
+  private getModels(): object {
+    return {
+      object: 'list',
+      data: LlamacppGenerativeAIWorkerConnector.getModels()
+        .map((model) => ({
+          id: model.id,
+          object: 'model',
+          created: 0,
+          owned_by: 'llamacpp',
+        })),
+    };
+  }
+
+  /**
+   * Answer a chat completion request, streamed as server-sent events if requested.
+   * @param req The request.
+   * @param res The response.
+   * @param body The request body.
+   * @returns A promise that resolves when the response is sent.
+   * @ignore
+   */
+  private async handleChatCompletions(req: IncomingMessage, res: ServerResponse, body: any): Promise<void> {
+    const model = this.getModel(body.model, 'text');
+    const toolCalls: IOpenAIToolCall[] = [];
+    const controller = new AbortController();
+    const parameters = this.getChatParameters(body, req, toolCalls, controller);
+    const id = `chatcmpl-${randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const jobOptions = {
+      model,
+      sequences: this.options.sequences,
+      signal: controller.signal,
+      priority: body.stream ? 'interactive' as const : 'normal' as const,
+    };
+
+    // A client that disconnects stops its job, whether it is streamed or not.
+    res.on('close', () => controller.abort());
+    if (!body.stream) {
+      const result = await this.connector.processJob(parameters, jobOptions);
+      return this.sendJson(res, 200, {
+        id,
+        object: 'chat.completion',
+        created,
+        model: model.id,
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: typeof result.output === 'string' ? result.output : '',
+            reasoning_content: result.thought,
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+          },
+          finish_reason: this.getFinishReason(result.stopReason, toolCalls),
+        }],
+        usage: this.getUsage(result),
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    const sendChunk = (delta: object, finishReason: string | null = null, usage?: object) => {
+      res.write(`data: ${JSON.stringify({
+        id,
+        object: 'chat.completion.chunk',
+        created,
+        model: model.id,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        usage,
+      })}\n\n`);
+    };
+
+    try {
+      sendChunk({ role: 'assistant', content: '' });
+      for await (const chunk of this.connector.processJobStream(parameters, jobOptions)) {
+        if (chunk.final) {
+          if (toolCalls.length > 0) {
+            sendChunk({ tool_calls: toolCalls.map((toolCall, index) => ({ index, ...toolCall })) });
+          }
+          sendChunk({}, this.getFinishReason(chunk.stopReason, toolCalls), this.getUsage(chunk));
+          break;
+        }
+        if (chunk.thought) {
+          sendChunk({ reasoning_content: chunk.thought });
+        }
+        if (typeof chunk.output === 'string' && chunk.output.length > 0) {
+          sendChunk({ content: chunk.output });
+        }
+      }
+      res.write('data: [DONE]\n\n');
+    } catch (e) {
+      console.error(e);
+      res.write(`data: ${JSON.stringify({ error: { message: (e as Error).message, type: 'server_error' } })}\n\n`);
+    } finally {
+      res.end();
+    }
+  }
+
+  /**
+   * Get the embeddings of the inputs of a request.
+   * @param body The request body.
+   * @returns A promise that resolves with the embeddings response.
+   * @ignore
+   */
+  private async getEmbeddings(body: any): Promise<object> {
+    const model = this.getModel(body.model, 'vector');
+    const inputs: unknown[] = Array.isArray(body.input) ? body.input : [body.input];
+    if (inputs.length === 0 || inputs.some((input) => typeof input !== 'string')) {
+      throw new LlamacppHttpError(400, 'input must be a string or an array of strings');
+    }
+
+    const result = await this.connector.processJob({
+      type: 'prompt' as GenerativeAIJobType.Prompt,
+      threadId: '',
+      prompt: inputs[0] as string,
+      prompts: inputs as string[],
+    }, {
+      model,
+      priority: 'batch',
+    });
+
+    return {
+      object: 'list',
+      data: (result.vectors ?? []).map((embedding, index) => ({
+        object: 'embedding',
+        index,
+        embedding,
+      })),
+      model: model.id,
+      usage: {
+        prompt_tokens: 0,
+        total_tokens: 0,
+      },
+    };
+  }
+
+  /**
+   * Translate a chat completion request into job parameters.
+   * System messages become the instructions, the last message becomes the prompt and the others the history.
+   * @param body The request body.
+   * @param req The request, whose `x-thread-id` header selects the chat session kept between requests.
+   * @param toolCalls The tool calls of the job, filled when the model calls a tool.
+   * @param controller The abort controller of the job, aborted when the model calls a tool.
+   * @returns The job parameters.
+   * @ignore
+   */
+  private getChatParameters(body: any, req: IncomingMessage, toolCalls: IOpenAIToolCall[], controller: AbortController): ILlamacppGenerativeAIWorkerConnectorParameters {
+    const messages: IOpenAIChatMessage[] = body.messages;
+    if (!Array.isArray(messages) || messages.length === 0) {
+      throw new LlamacppHttpError(400, 'messages must be a non-empty array');
+    }
+
+    const instructions = messages
+      .filter((message) => message.role === 'system' || message.role === 'developer')
+      .map((message) => this.getMessageText(message))
+      .join('\n');
+    const conversation = messages.filter((message) => message.role !== 'system' && message.role !== 'developer');
+    const last = conversation.pop();
+    if (!last || last.role === 'assistant') {
+      throw new LlamacppHttpError(400, 'The last message must be a user or tool message');
+    }
+
+    const history: IPromptHistory[] = conversation.map((message) => ({
+      source: (message.role === 'assistant' ? 'ai' : 'human') as PromptSource,
+      message: this.getMessageText(message),
+    }));
+
+    const stop: string[] | undefined = typeof body.stop === 'string' ? [body.stop] : body.stop;
+    return {
+      type: 'prompt' as GenerativeAIJobType.Prompt,
+      threadId: typeof req.headers['x-thread-id'] === 'string' ? req.headers['x-thread-id'] : '',
+      prompt: this.getMessageText(last),
+      instructions: instructions || undefined,
+      history,
+      maxTokens: body.max_completion_tokens ?? body.max_tokens,
+      temperature: body.temperature,
+      grammar: this.getGrammar(body.response_format),
+      functions: this.getFunctions(body.tools, toolCalls, controller),
+      sampling: {
+        topP: body.top_p,
+        seed: body.seed,
+        frequencyPenalty: body.frequency_penalty,
+        presencePenalty: body.presence_penalty,
+        stopSequences: stop,
+      },
+    };
+  }
+
+  /**
+   * Get the text of a message. Tool calls and tool results are described in text, since the history only holds text.
+   * @param message The message.
+   * @returns The text.
+   * @ignore
+   */
+  private getMessageText(message: IOpenAIChatMessage): string {
+    const content = Array.isArray(message.content)
+      ? message.content.filter((part) => part.type === 'text').map((part) => part.text ?? '').join('')
+      : message.content ?? '';
+
+    if (message.role === 'tool') {
+      return `Result of the tool call ${message.tool_call_id ?? ''}: ${content}`;
+    }
+    if (message.tool_calls && message.tool_calls.length > 0) {
+      const calls = message.tool_calls.map((call) => `Called ${call.function.name} with ${call.function.arguments} (${call.id})`);
+      return [content, ...calls].filter((text) => text).join('\n');
+    }
+    return content;
+  }
+
+  /**
+   * Get the grammar of a response format.
+   * @param responseFormat The response format.
+   * @returns The grammar, if the response format requires JSON.
+   * @ignore
+   */
+  private getGrammar(responseFormat?: { type: string, json_schema?: { schema?: object } }): unknown {
+    if (responseFormat?.type === 'json_object') {
+      return 'json';
+    }
+    if (responseFormat?.type === 'json_schema') {
+      if (!responseFormat.json_schema?.schema) {
+        throw new LlamacppHttpError(400, 'response_format.json_schema.schema is required');
+      }
+      return responseFormat.json_schema.schema;
+    }
+    return undefined;
+  }
+
+  /**
+   * Translate the tools of a request into prompt functions.
+   * A called tool is recorded and stops the job, so the client runs it and sends its result back.
+   * @param tools The tools.
+   * @param toolCalls The tool calls of the job.
+   * @param controller The abort controller of the job.
+   * @returns The prompt functions, keyed by name.
+   * @ignore
+   */
+  private getFunctions(tools: { type: string, function: { name: string, description?: string, parameters?: { [key: string]: any } } }[] | undefined, toolCalls: IOpenAIToolCall[], controller: AbortController): Map<string, PromptFunction> | undefined {
+    if (!tools || tools.length === 0) {
+      return undefined;
+    }
+
+    const functions = new Map<string, PromptFunction>();
+    for (const tool of tools) {
+      if (tool.type !== 'function') {
+        continue;
+      }
+      const { name, description, parameters } = tool.function;
+      const promptFunction: IPromptFunction = {
+        type: 'function',
+        description: description ?? '',
+        params: parameters && Object.keys(parameters.properties ?? {}).length > 0 ? parameters as IPromptFunctionParams : undefined,
+        callback: (params) => {
+          toolCalls.push({
+            id: `call_${randomUUID()}`,
+            type: 'function',
+            function: {
+              name,
+              arguments: JSON.stringify(params ?? {}),
+            },
+          });
+          controller.abort();
+          return '';
+        },
+      };
+      functions.set(name, promptFunction as PromptFunction);
+    }
+    return functions;
+  }
+
+  /**
+   * Get a model initialized in the connector.
+   * @param id The model ID.
+   * @param kind Whether the model must generate text or vectors.
+   * @returns The model.
+   * @ignore
+   */
+  private getModel(id: unknown, kind: 'text' | 'vector'): IGenerativeAIModel {
+    const model = typeof id === 'string' ? this.models.get(id) : undefined;
+    if (!model || model.engineType !== 'llamacpp' || !LlamacppGenerativeAIWorkerConnector.getModels().some((info) => info.id === model.id)) {
+      throw new LlamacppHttpError(404, `Unknown model ${id}`, 'not_found_error');
+    }
+    const isVector = model.outputType === 'vector' as GenerativeAIModelOutputType.Vector;
+    if (isVector !== (kind === 'vector')) {
+      throw new LlamacppHttpError(400, `Model ${id} does not generate ${kind === 'vector' ? 'embeddings' : 'text'}`);
+    }
+    return model;
+  }
+
+  /**
+   * Get the OpenAI finish reason of a job.
+   * @param stopReason The stop reason of the job.
+   * @param toolCalls The tool calls of the job.
+   * @returns The finish reason.
+   * @ignore
+   */
+  private getFinishReason(stopReason: LlamacppStopReason | undefined, toolCalls: IOpenAIToolCall[]): string {
+    if (toolCalls.length > 0) {
+      return 'tool_calls';
+    }
+    return stopReason === 'maxTokens' ? 'length' : 'stop';
+  }
+
+  /**
+   * Get the OpenAI usage of a job.
+   * @param result The job result.
+   * @returns The usage.
+   * @ignore
+   */
+  private getUsage(result: ILlamacppGenerativeAIWorkerConnectorResult): object {
+    const promptTokens = result.inputTokens ?? 0;
+    const completionTokens = result.outputTokens ?? 0;
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+
+  /**
+   * Read and parse a JSON request body.
+   * @param req The request.
+   * @returns A promise that resolves with the body.
+   * @ignore
+   */
+  private async readBody(req: IncomingMessage): Promise<any> {
+    const maxBodySize = this.options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > maxBodySize) {
+        throw new LlamacppHttpError(413, 'Request body too large');
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      throw new LlamacppHttpError(400, 'Request body is not valid JSON');
+    }
+  }
+
+  /**
+   * Send a JSON response.
+   * @param res The response.
+   * @param status The status code.
+   * @param body The body.
+   * @ignore
+   */
+  private sendJson(res: ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Send an error response, unless the response already started.
+   * @param res The response.
+   * @param e The error.
+   * @ignore
+   */
+  private sendError(res: ServerResponse, e: unknown): void {
+    if (!(e instanceof LlamacppHttpError)) {
+      console.error(e);
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const status = e instanceof LlamacppHttpError ? e.status : 500;
+    this.sendJson(res, status, {
+      error: {
+        message: (e as Error).message,
+        type: e instanceof LlamacppHttpError ? e.type : 'server_error',
+      },
+    });
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * The options of the OpenAI-compatible HTTP server.
+ */
+export interface ILlamacppOpenAIServerOptions {
+  /**
+   * The port to listen on. Defaults to 8080.
+   */
+  port?: number;
+
+  /**
+   * The host to listen on. Defaults to `127.0.0.1`.
+   */
+  host?: string;
+
+  /**
+   * The API key the clients must send as a bearer token. Requests are not authenticated if it is not set.
+   */
+  apiKey?: string;
+
+  /**
+   * The number of context sequences of the text models, passed as the `sequences` job option.
+   */
+  sequences?: number;
+
+  /**
+   * The maximum size of a request body in bytes. Defaults to 10 MB.
+   */
+  maxBodySize?: number;
+}
@@ -0,0 +1,19 @@
+/**
+ * A document scored by a ranking job.
+ */
+export interface ILlamacppRankedDocument {
+  /**
+   * The index of the document in the job.
+   */
+  index: number;
+
+  /**
+   * The document.
+   */
+  document: string;
+
+  /**
+   * The relevance of the document to the query, between 0 and 1.
+   */
+  score: number;
+}
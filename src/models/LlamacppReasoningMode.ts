@@ -0,0 +1,7 @@
+/**
+ * How a model reasons when a job enables reasoning.
+ * - `native`: the model reasons on its own, its thought segments are returned separately from the answer.
+ * - `prompted`: the model is first prompted to analyze the question, and its analysis is prepended to the answer in `<think>` tags.
+ * - `off`: reasoning is disabled.
+ */
+export type LlamacppReasoningMode = 'native' | 'prompted' | 'off';
@@ -0,0 +1,54 @@
+/**
+ * The sampling controls of a generation.
+ */
+export interface ILlamacppSamplingOptions {
+  /**
+   * Only sample from the K most likely tokens. Set to 0 to disable.
+   */
+  topK?: number;
+
+  /**
+   * Only sample from the most likely tokens whose cumulative probability reaches P. Set to 1 to disable.
+   */
+  topP?: number;
+
+  /**
+   * Only sample from the tokens whose probability is at least P times the probability of the most likely token. Set to 0 to disable.
+   */
+  minP?: number;
+
+  /**
+   * The seed of the random number generator, for reproducible generations when the temperature is above 0.
+   */
+  seed?: number;
+
+  /**
+   * The factor lowering the probability of recently generated tokens. Set to 1 to disable.
+   */
+  repeatPenalty?: number;
+
+  /**
+   * Lower the probability of a recently generated token by this amount for each time it was generated.
+   */
+  frequencyPenalty?: number;
+
+  /**
+   * Lower the probability of every recently generated token by this amount.
+   */
+  presencePenalty?: number;
+
+  /**
+   * The number of recent tokens the penalties apply to. Defaults to 64.
+   */
+  penaltyLastTokens?: number;
+
+  /**
+   * The texts that end the generation when generated. The stop sequence is not included in the output.
+   */
+  stopSequences?: string[];
+
+  /**
+   * The bias added to the logits of the tokens of each text, or `never` to prevent them from being generated.
+   */
+  tokenBias?: { [text: string]: number | 'never' };
+}
@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from 'fs';
+
+import type { ChatHistoryItem } from 'node-llama-cpp';
+
+import { ILlamacppChatSession } from './LlamacppChatSession';
+
+/**
+ * The version of the session file format, bumped when saved sessions can no longer be restored.
+ * @ignore
+ */
+const SESSION_FORMAT_VERSION = 1;
+
+/**
+ * The metadata file of a saved session.
+ * @ignore
+ */
+interface ILlamacppSavedSession {
+  formatVersion: number;
+  modelId: string;
+  modelVersion: string;
+  adapterKey?: string;
+  history: ChatHistoryItem[];
+}
+
+/**
+ * Saves chat sessions to disk and restores them, so conversations resume after a restart without evaluating their transcript again.
+ * A session is saved as a JSON file holding its chat history and a binary file holding its context sequence state.
+ * Both are tied to the model file they were created with, and are discarded when the model file changes.
+ */
+export class LlamacppSessionStore {
+  /**
+   * The constructor.
+   * @param folder The folder the sessions are saved to.
+   */
+  constructor(
+    private folder: string,
+  ) {}
+
+  /**
+   * Save a chat session.
+   * @param chat The chat session, which must have a key.
+   * @param modelPath The path of the model file.
+   * @returns A promise that resolves when the session is saved.
+   */
+  async save(chat: ILlamacppChatSession, modelPath: string): Promise<void> {
+    const { statePath, historyPath } = this.getPaths(chat.key!);
+    if (!existsSync(this.folder)) {
+      mkdirSync(this.folder, { recursive: true });
+    }
+
+    // The history is written last, so a session is only restored once both files are complete.
+    this.delete(chat.key!);
+    await chat.sequence.saveStateToFile(`${statePath}.part`);
+    renameSync(`${statePath}.part`, statePath);
+
+    const saved: ILlamacppSavedSession = {
+      formatVersion: SESSION_FORMAT_VERSION,
+      modelId: chat.modelId,
+      modelVersion: this.getModelVersion(modelPath),
+      adapterKey: chat.adapterKey,
+      history: chat.session.getChatHistory(),
+    };
+    writeFileSync(`${historyPath}.part`, JSON.stringify(saved));
+    renameSync(`${historyPath}.part`, historyPath);
+  }
+
+  /**
+   * Restore a saved chat session into a new session.
+   * A session saved with another model, adapter or version of the model file is deleted instead.
+   * @param chat The new chat session, which must have a key.
+   * @param modelPath The path of the model file.
+   * @returns A promise that resolves with true if the session was restored.
+   */
+  async restore(chat: ILlamacppChatSession, modelPath: string): Promise<boolean> {
+    const { statePath, historyPath } = this.getPaths(chat.key!);
+    if (!existsSync(historyPath) || !existsSync(statePath)) {
+      return false;
+    }
+
+    try {
+      const saved = JSON.parse(readFileSync(historyPath, 'utf-8')) as ILlamacppSavedSession;
+      if (
+        saved.formatVersion !== SESSION_FORMAT_VERSION
+        || saved.modelId !== chat.modelId
+        || saved.modelVersion !== this.getModelVersion(modelPath)
+        || saved.adapterKey !== chat.adapterKey
+      ) {
+        console.log(`Discarding stale session ${chat.key}`);
+        this.delete(chat.key!);
+        return false;
+      }
+
+      await chat.sequence.loadStateFromFile(statePath, { acceptRisk: true });
+      chat.session.setChatHistory(saved.history);
+      return true;
+    } catch (e) {
+      console.error(`Failed to restore session ${chat.key}`, e);
+      this.delete(chat.key!);
+      await chat.sequence.clearHistory();
+      return false;
+    }
+  }
+
+  /**
+   * Delete a saved chat session.
+   * @param key The conversation key.
+   */
+  delete(key: string): void {
+    const { statePath, historyPath } = this.getPaths(key);
+    for (const path of [historyPath, statePath]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+  }
+
+  /**
+   * Get the paths of the files of a session.
+   * The key is hashed, since conversation IDs are not safe file names.
+   * @param key The conversation key.
+   * @returns The paths of the state and history files.
+   * @ignore
+   */
+  private getPaths(key: string): { statePath: string, historyPath: string } {
+    const name = createHash('sha256').update(key).digest('hex');
+    return {
+      statePath: `${this.folder}/${name}.bin`,
+      historyPath: `${this.folder}/${name}.json`,
+    };
+  }
+
+  /**
+   * Get the version of a model file, which changes when the file is replaced.
+   * @param modelPath The path of the model file.
+   * @returns The version.
+   * @ignore
+   */
+  private getModelVersion(modelPath: string): string {
+    const stats = statSync(modelPath);
+    return `${stats.size}-${Math.floor(stats.mtimeMs)}`;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * The options of speculative decoding, where cheaply predicted tokens are validated by the model in a single batch.
+ */
+export interface ILlamacppSpeculativeDecodingOptions {
+  /**
+   * The ID of an initialized text model, smaller than the model and sharing its vocabulary, that drafts the predicted tokens.
+   */
+  draftModel?: string;
+
+  /**
+   * Whether tokens are predicted by looking up the continuation of the latest tokens in the input, when no draft model is set. Defaults to false.
+   */
+  promptLookup?: boolean;
+
+  /**
+   * The maximum number of tokens predicted at once. Defaults to the node-llama-cpp default.
+   */
+  maxDraftTokens?: number;
+
+  /**
+   * The minimum confidence of the draft model in a predicted token, below which the prediction stops. Defaults to the node-llama-cpp default.
+   */
+  minConfidence?: number;
+}
@@ -0,0 +1,19 @@
+/**
+ * The statistics of the speculative decoding of a job.
+ */
+export interface ILlamacppSpeculativeDecodingStats {
+  /**
+   * The number of predicted tokens validated by the model.
+   */
+  predictedTokens: number;
+
+  /**
+   * The number of predicted tokens the model accepted.
+   */
+  acceptedTokens: number;
+
+  /**
+   * The share of the predicted tokens the model accepted, between 0 and 1.
+   */
+  acceptanceRate: number;
+}
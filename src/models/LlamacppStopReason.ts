@@ -0,0 +1,10 @@
+/**
+ * Why the generation stopped.
+ * - `eos`: the model ended its response.
+ * - `maxTokens`: the token budget was exhausted.
+ * - `stopSequence`: a stop sequence or a grammar stop trigger was generated.
+ * - `functionCalls`: the model stopped to call functions.
+ * - `abort`: the job was cancelled.
+ * - `error`: the generation failed.
+ */
+export type LlamacppStopReason = 'eos' | 'maxTokens' | 'stopSequence' | 'functionCalls' | 'abort' | 'error';
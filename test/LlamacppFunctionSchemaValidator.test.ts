@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+
+import { LlamacppFunctionSchemaValidator } from '../src/models/LlamacppFunctionSchemaValidator';
+
+describe('LlamacppFunctionSchemaValidator', () => {
+  const validator = new LlamacppFunctionSchemaValidator();
+  const schema = validator.normalize({
+    city: { type: 'string', required: true },
+    unit: { type: 'string' },
+  });
+
+  it('keeps the properties of a legacy map optional unless they are marked required', () => {
+    expect(schema).toEqual({
+      type: 'object',
+      properties: { city: { type: 'string' }, unit: { type: 'string' } },
+      required: ['city'],
+    });
+    expect(validator.validate(schema, { city: 'Paris' })).toEqual([]);
+    expect(validator.validate(schema, { unit: 'celsius' })).toEqual(['params.city is required']);
+  });
+
+  it('lets the grammar leave out optional properties with null', () => {
+    expect(validator.toGbnf(schema)).toMatchObject({
+      properties: {
+        city: { type: 'string' },
+        unit: { oneOf: [{ type: 'string' }, { type: 'null' }] },
+      },
+    });
+  });
+
+  it('removes the optional properties set to null', () => {
+    expect(validator.removeOmitted(schema, { city: 'Paris', unit: null })).toEqual({ city: 'Paris' });
+    expect(validator.removeOmitted(schema, { city: null, unit: 'celsius' })).toEqual({ city: null, unit: 'celsius' });
+  });
+});
@@ -0,0 +1,251 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { IGenerativeAIModel, IPromptFunction, PromptFunction } from '@crewdle/web-sdk-types';
+
+import { LlamacppGenerativeAIWorkerConnector } from '../src/models/LlamacppGenerativeAIWorkerConnector';
+import { ILlamacppGenerativeAIWorkerConnectorResult } from '../src/models/LlamacppGenerativeAIWorkerConnectorResult';
+import { ILlamacppGenerativeAIWorkerOptions } from '../src/models/LlamacppGenerativeAIWorkerOptions';
+import { createFakeEngine, FakeChatSession, FakeModel } from './fakes';
+
+vi.mock('node-llama-cpp', async (importOriginal) => {
+  const { FakeChatSession } = await import('./fakes');
+  return {
+    ...await importOriginal<typeof import('node-llama-cpp')>(),
+    LlamaChatSession: FakeChatSession,
+  };
+});
+
+vi.mock('../src/models/LlamacppModelInspector', () => ({
+  LlamacppModelInspector: class {
+    async inspect() {
+      return {
+        architecture: 'fake',
+        parameterCount: 1,
+        layerCount: 1,
+        supportsRanking: false,
+        size: 4,
+      };
+    }
+  },
+}));
+
+describe('LlamacppGenerativeAIWorkerConnector', () => {
+  let folder: string;
+  let model: IGenerativeAIModel;
+  let connector: LlamacppGenerativeAIWorkerConnector;
+
+  const createConnector = async (options: Partial<ILlamacppGenerativeAIWorkerOptions> = {}) => {
+    connector = new LlamacppGenerativeAIWorkerConnector(undefined, { ...options, baseFolder: folder });
+    await connector.initialize('workflow', new Map([[model.id, model]]));
+    return connector;
+  };
+
+  const getFunctions = (functions: { [name: string]: () => string }) => new Map(Object.entries(functions).map(([name, callback]) => [name, {
+    type: 'function',
+    description: name,
+    callback,
+  } as IPromptFunction as PromptFunction]));
+
+  beforeAll(() => {
+    folder = mkdtempSync(join(tmpdir(), 'llamacpp-test-'));
+    const pathName = join(folder, 'fake.gguf');
+    writeFileSync(pathName, 'GGUF');
+    model = {
+      id: 'fake',
+      engineType: 'llamacpp',
+      outputType: 'text',
+      sourceUrl: pathName,
+    } as unknown as IGenerativeAIModel;
+    LlamacppGenerativeAIWorkerConnector.setEngine(createFakeEngine());
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    FakeChatSession.sessions = [];
+  });
+
+  afterEach(async () => {
+    await connector.close();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    rmSync(folder, { recursive: true, force: true });
+  });
+
+  describe('processJob', () => {
+    it('answers the prompt after the job history', async () => {
+      await createConnector({ instructions: 'Be brief.' });
+      FakeChatSession.reply = () => ({ text: 'Paris is the capital.' });
+
+      const result = await connector.processJob({
+        prompt: 'And of France?',
+        history: [{ source: 'human', message: 'Capital of Italy?' }, { source: 'ai', message: 'Rome.' }],
+      } as any, { model });
+
+      expect(result.output).toBe('Paris is the capital.');
+      expect(result.stopReason).toBe('eos');
+      expect(result.inputTokens).toBe('And of France?'.length);
+      expect(result.outputTokens).toBe('Paris is the capital.'.length);
+      expect(FakeChatSession.sessions[0].getChatHistory().slice(0, 3)).toEqual([
+        { type: 'system', text: 'Be brief.' },
+        { type: 'user', text: 'Capital of Italy?' },
+        { type: 'model', response: ['Rome.'] },
+      ]);
+    });
+
+    it('records the function calls of the model', async () => {
+      await createConnector();
+      const lookup = vi.fn(() => '21°C');
+      FakeChatSession.reply = () => ({ calls: [[{ name: 'weather' }]], text: 'It is 21°C.' });
+
+      const result = await connector.processJob({
+        prompt: 'Weather?',
+        functions: getFunctions({ weather: lookup }),
+      } as any, { model });
+
+      expect(lookup).toHaveBeenCalledOnce();
+      expect(result.output).toBe('It is 21°C.');
+      expect(result.functionCalls).toEqual([expect.objectContaining({ index: 0, round: 1, name: 'weather', result: '21°C' })]);
+    });
+
+    it('re-prompts without functions once the round limit is exceeded', async () => {
+      await createConnector({ maxFunctionCallRounds: 2 });
+      const lookup = vi.fn(() => 'nothing');
+      FakeChatSession.reply = (_prompt, options) => options.functions
+        ? { calls: [[{ name: 'search' }], [{ name: 'search' }], [{ name: 'search' }], [{ name: 'search' }]], text: 'never' }
+        : { text: 'Nothing found.' };
+
+      const result = await connector.processJob({
+        prompt: 'Find it',
+        functions: getFunctions({ search: lookup }),
+      } as any, { model });
+
+      const { prompts } = FakeChatSession.sessions[0];
+      expect(lookup).toHaveBeenCalledTimes(2);
+      expect(result.functionCalls).toHaveLength(3);
+      expect(result.functionCalls![2].error).toMatch(/limit of 2 rounds/);
+      expect(prompts).toHaveLength(2);
+      expect(prompts[1].prompt).toMatch(/function call limit is reached/);
+      expect(prompts[1].options.functions).toBeUndefined();
+      expect(result.output).toBe('Nothing found.');
+      expect(result.stopReason).toBe('eos');
+      expect(FakeChatSession.sessions[0].getChatHistory().slice(1)).toEqual([
+        { type: 'user', text: 'Find it' },
+        { type: 'model', response: ['Nothing found.'] },
+      ]);
+    });
+
+    it('retries a truncated structured answer with a larger budget', async () => {
+      await createConnector({ structuredOutputRetries: 1 });
+      const replies = [{ text: '{"answer":', stopReason: 'maxTokens' }, { text: '{"answer": 42}' }];
+      FakeChatSession.reply = () => replies.shift()!;
+
+      const result = await connector.processJob({
+        prompt: 'Answer',
+        maxTokens: 16,
+        grammar: { type: 'object', properties: { answer: { type: 'number' } } },
+      } as any, { model });
+
+      const { prompts } = FakeChatSession.sessions[0];
+      expect(prompts.map(({ options }) => options.maxTokens)).toEqual([16, 32]);
+      expect(result.output).toBe('{"answer": 42}');
+      expect(result.parsed).toEqual({ answer: 42 });
+      expect(result.parseError).toBeUndefined();
+    });
+
+    it('shares one context between the first jobs of a model', async () => {
+      await createConnector();
+      const createContext = vi.spyOn(FakeModel.prototype, 'createContext');
+      FakeChatSession.reply = () => ({ text: 'Done.' });
+
+      const results = await Promise.all(['first', 'second'].map((jobId) => connector.processJob({ prompt: 'Go' } as any, { model, jobId, sequences: 2 } as any)));
+
+      expect(results.map((result) => result.output)).toEqual(['Done.', 'Done.']);
+      expect(createContext).toHaveBeenCalledOnce();
+      expect(createContext.mock.calls[0][0]).toMatchObject({ sequences: 2 });
+    });
+
+    it('saves a kept session after each completed job', async () => {
+      await createConnector({ persistSessions: true });
+      const sessionFolder = join(folder, 'sessions');
+      FakeChatSession.reply = () => ({ text: 'Noted.' });
+
+      await connector.processJob({ prompt: 'Remember this', threadId: 'thread' } as any, { model });
+
+      await vi.waitFor(() => expect(existsSync(sessionFolder) && readdirSync(sessionFolder).sort()).toEqual([expect.stringMatching(/\.bin$/), expect.stringMatching(/\.json$/)]));
+      expect(FakeChatSession.sessions[0].disposed).toBe(false);
+      rmSync(sessionFolder, { recursive: true, force: true });
+    });
+
+    it('stops the generation when the job is cancelled', async () => {
+      await createConnector();
+      FakeChatSession.reply = () => {
+        connector.cancelJob('job');
+        return { text: 'one two three four five' };
+      };
+
+      const result = await connector.processJob({ prompt: 'Count' } as any, { model, jobId: 'job' } as any);
+
+      expect(result.stopReason).toBe('abort');
+      expect(result.output).toBe('');
+      expect(FakeChatSession.sessions[0].disposed).toBe(true);
+    });
+  });
+
+  describe('processJobStream', () => {
+    const collect = async (stream: AsyncGenerator<ILlamacppGenerativeAIWorkerConnectorResult>) => {
+      const chunks: ILlamacppGenerativeAIWorkerConnectorResult[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    it('streams the output and ends with a summary chunk', async () => {
+      await createConnector();
+      FakeChatSession.reply = () => ({ text: 'Hello there friend' });
+
+      const chunks = await collect(connector.processJobStream({ prompt: 'Hi' } as any, { model }));
+      const final = chunks.pop()!;
+
+      expect(chunks.map((chunk) => chunk.output)).toEqual(['Hello ', 'there ', 'friend']);
+      expect(chunks.every((chunk) => !chunk.final)).toBe(true);
+      expect(final).toMatchObject({ final: true, output: '', stopReason: 'eos', outputTokens: 'Hello there friend'.length });
+      expect(final.timeToFirstToken).toBeGreaterThanOrEqual(0);
+    });
+
+    it('streams the thoughts apart from the output', async () => {
+      await createConnector({ reasoningMode: 'native' });
+      FakeChatSession.reply = () => ({ thought: 'Greeting back.', text: 'Hello' });
+
+      const chunks = await collect(connector.processJobStream({ prompt: 'Hi', reasoning: true } as any, { model }));
+      const final = chunks.pop()!;
+
+      expect(chunks.map(({ output, thought }) => ({ output, thought }))).toEqual([
+        { output: '', thought: 'Greeting back.' },
+        { output: 'Hello', thought: undefined },
+      ]);
+      expect(final.thought).toBeUndefined();
+      expect(final.reasoningTokens).toBe('Greeting back.'.length);
+    });
+
+    it('stops the generation when the consumer stops reading', async () => {
+      await createConnector();
+      FakeChatSession.reply = () => ({ text: 'one two three four five' });
+
+      for await (const chunk of connector.processJobStream({ prompt: 'Count' } as any, { model })) {
+        expect(chunk.output).toBe('one ');
+        break;
+      }
+
+      const [session] = FakeChatSession.sessions;
+      expect(session.prompts[0].options.signal.aborted).toBe(true);
+      expect(session.disposed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { LlamacppModelDownloader } from '../src/models/LlamacppModelDownloader';
+import { LlamacppModelStore } from '../src/models/LlamacppModelStore';
+
+describe('LlamacppModelStore', () => {
+  let folder: string;
+  let downloader: LlamacppModelDownloader;
+  let store: LlamacppModelStore;
+  const model = { id: 'model', sourceUrl: 'https://example.com/model.gguf' };
+
+  beforeEach(() => {
+    folder = mkdtempSync(join(tmpdir(), 'llamacpp-store-test-'));
+    downloader = new LlamacppModelDownloader();
+    vi.spyOn(downloader, 'download').mockImplementation(async ({ destination }) => writeFileSync(destination, 'GGUF downloaded'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    store = new LlamacppModelStore(folder, downloader, () => false);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(folder, { recursive: true, force: true });
+  });
+
+  it('reuses a valid file without a record', async () => {
+    writeFileSync(join(folder, 'model.gguf'), 'GGUF existing');
+
+    await store.fetch(model);
+
+    expect(downloader.download).not.toHaveBeenCalled();
+  });
+
+  it('downloads again a file without a record that is not a GGUF file', async () => {
+    writeFileSync(join(folder, 'model.gguf'), 'partial');
+
+    await store.fetch(model);
+
+    expect(downloader.download).toHaveBeenCalledOnce();
+  });
+
+  it('checks a recorded file again when its checksum changes', async () => {
+    await store.fetch(model);
+    const sha256 = createHash('sha256').update('GGUF other').digest('hex');
+
+    await store.fetch({ ...model, sha256 });
+
+    expect(downloader.download).toHaveBeenCalledTimes(2);
+    expect(downloader.download).toHaveBeenLastCalledWith(expect.objectContaining({ sha256 }));
+  });
+
+  it('keeps a recorded file whose checksum is added and matches', async () => {
+    await store.fetch(model);
+    const sha256 = createHash('sha256').update('GGUF downloaded').digest('hex');
+
+    await store.fetch({ ...model, sha256 });
+
+    expect(downloader.download).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,208 @@
+import { writeFileSync } from 'fs';
+
+import type { ChatHistoryItem, Llama } from 'node-llama-cpp';
+
+/**
+ * The scripted reply of the fake model to a prompt.
+ */
+export interface IFakeReply {
+  text?: string;
+  thought?: string;
+  calls?: { name: string, params?: { [key: string]: unknown } }[][];
+  stopReason?: string;
+}
+
+/**
+ * A prompt received by a fake chat session.
+ */
+export interface IFakePrompt {
+  prompt: string;
+  options: { [key: string]: any };
+}
+
+/**
+ * A context sequence counting the tokens of the fake model.
+ */
+export class FakeSequence {
+  tokenMeter = { usedInputTokens: 0, usedOutputTokens: 0 };
+  tokenPredictions = { validated: 0, refuted: 0, used: 0, unused: 0 };
+  tokenPredictor = undefined;
+  disposed = false;
+
+  constructor(public context: FakeContext) {}
+
+  async saveStateToFile(path: string): Promise<void> {
+    writeFileSync(path, JSON.stringify(this.tokenMeter));
+  }
+
+  dispose(): void {
+    if (!this.disposed) {
+      this.disposed = true;
+      this.context.sequencesLeft++;
+    }
+  }
+}
+
+/**
+ * A context handing out fake sequences.
+ */
+export class FakeContext {
+  contextSize: number;
+  totalSequences: number;
+  sequencesLeft: number;
+  memoryUsage = { ram: 0, vram: 0 };
+  disposed = false;
+
+  constructor(public model: FakeModel, options: { contextSize?: number, sequences?: number }) {
+    this.contextSize = options.contextSize ?? model.trainContextSize;
+    this.totalSequences = options.sequences ?? 1;
+    this.sequencesLeft = this.totalSequences;
+  }
+
+  getSequence(): FakeSequence {
+    if (this.sequencesLeft === 0) {
+      throw new Error('No sequences left');
+    }
+    this.sequencesLeft--;
+    return new FakeSequence(this);
+  }
+
+  async dispose(): Promise<void> {
+    this.disposed = true;
+  }
+}
+
+/**
+ * A model whose tokens are the characters of the text.
+ */
+export class FakeModel {
+  trainContextSize = 4096;
+  memoryUsage = { ram: 0, vram: 0 };
+  disposed = false;
+
+  tokenize(text: string): number[] {
+    return [...text].map((char) => char.charCodeAt(0));
+  }
+
+  detokenize(tokens: readonly number[]): string {
+    return String.fromCharCode(...tokens);
+  }
+
+  async createContext(options: { contextSize?: number, sequences?: number }): Promise<FakeContext> {
+    // Allocating a context takes a while, like the KV cache of a real one.
+    await new Promise((resolve) => setImmediate(resolve));
+    return new FakeContext(this, options);
+  }
+
+  async dispose(): Promise<void> {
+    this.disposed = true;
+  }
+}
+
+/**
+ * Create a fake Llama engine loading fake models.
+ * @returns The engine.
+ */
+export function createFakeEngine(): Llama {
+  return {
+    gpu: false,
+    loadModel: async () => new FakeModel(),
+    getVramState: async () => ({ total: 0, used: 0, free: 0 }),
+    createGrammarForJsonSchema: async () => ({
+      parse: (text: string) => JSON.parse(text),
+    }),
+  } as unknown as Llama;
+}
+
+/**
+ * A chat session answering with the replies of a script instead of a model.
+ * Text is streamed word by word, function calls are made round by round, and an aborted signal stops the reply like `stopOnAbortSignal`.
+ */
+export class FakeChatSession {
+  /**
+   * The script answering the prompts of all sessions.
+   */
+  static reply: (prompt: string, options: { [key: string]: any }) => IFakeReply = () => ({ text: '' });
+
+  /**
+   * The sessions created, last one last.
+   */
+  static sessions: FakeChatSession[] = [];
+
+  prompts: IFakePrompt[] = [];
+  disposed = false;
+  private sequence: FakeSequence;
+  private history: ChatHistoryItem[];
+
+  constructor(options: { contextSequence: FakeSequence, systemPrompt?: string }) {
+    this.sequence = options.contextSequence;
+    this.history = [{ type: 'system', text: options.systemPrompt ?? '' }];
+    FakeChatSession.sessions.push(this);
+  }
+
+  getChatHistory(): ChatHistoryItem[] {
+    return [...this.history];
+  }
+
+  setChatHistory(history: ChatHistoryItem[]): void {
+    this.history = [...history];
+  }
+
+  async prompt(prompt: string, options: { [key: string]: any } = {}): Promise<string> {
+    const response = await this.promptWithMeta(prompt, {
+      ...options,
+      onResponseChunk: (chunk: { type?: string, text: string }) => {
+        if (chunk.type === undefined) {
+          options.onTextChunk?.(chunk.text);
+        }
+      },
+    });
+    return response.responseText;
+  }
+
+  async promptWithMeta(prompt: string, options: { [key: string]: any } = {}): Promise<{ responseText: string, response: string[], stopReason: string }> {
+    const { signal, onResponseChunk, functions } = options;
+    const meter = this.sequence.tokenMeter;
+    this.prompts.push({ prompt, options });
+    const reply = FakeChatSession.reply(prompt, options);
+    meter.usedInputTokens += prompt.length;
+
+    for (const round of functions ? reply.calls ?? [] : []) {
+      await Promise.all(round.map(({ name, params }) => functions[name].handler(params)));
+      // The results of a round are evaluated before the next round is generated.
+      meter.usedInputTokens++;
+      if (signal?.aborted) {
+        return this.stop(prompt, '');
+      }
+    }
+
+    if (reply.thought) {
+      onResponseChunk?.({ type: 'segment', segmentType: 'thought', text: reply.thought, tokens: [...reply.thought] });
+      meter.usedOutputTokens += reply.thought.length;
+    }
+    let text = '';
+    for (const word of (reply.text ?? '').split(/(?<= )/)) {
+      await new Promise((resolve) => setImmediate(resolve));
+      if (signal?.aborted) {
+        return this.stop(prompt, text);
+      }
+      onResponseChunk?.({ type: undefined, text: word, tokens: [...word] });
+      meter.usedOutputTokens += word.length;
+      text += word;
+    }
+    this.history.push({ type: 'user', text: prompt }, { type: 'model', response: [text] });
+    return { responseText: text, response: [text], stopReason: reply.stopReason ?? 'eogToken' };
+  }
+
+  dispose(): void {
+    this.disposed = true;
+  }
+
+  /**
+   * Stop a reply on abort, keeping the partial response in the history like `stopOnAbortSignal`.
+   */
+  private stop(prompt: string, text: string): { responseText: string, response: string[], stopReason: string } {
+    this.history.push({ type: 'user', text: prompt }, { type: 'model', response: [text] });
+    return { responseText: text, response: [text], stopReason: 'abort' };
+  }
+}